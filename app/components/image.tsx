@@ -0,0 +1,123 @@
+import type { ImgHTMLAttributes } from "react";
+import { getEncoderSupport, getImgSrc } from "~/lib/transform";
+import type {
+  ImageEndpoint,
+  OutputFormat,
+  TransformQuery,
+} from "~/lib/transform";
+
+// Common device widths, the srcset offers those up to the source width
+export const imageBreakpoints = [640, 750, 828, 1080, 1200, 1920, 2048, 3840];
+
+export interface ImageProps
+  extends Omit<
+    ImgHTMLAttributes<HTMLImageElement>,
+    "src" | "srcSet" | "width" | "height"
+  > {
+  src: string;
+  // Intrinsic size of the source, reserves the space before the image loads
+  width: number;
+  height: number;
+  alt: string;
+  breakpoints?: number[];
+  // Offered as <source> elements in order of preference, the <img> fallback
+  // keeps the source format
+  formats?: OutputFormat[];
+  quality?: number;
+  endpoint?: ImageEndpoint;
+  // Builds the URL for each candidate, e.g. to use pre-signed URLs
+  loader?: (query: TransformQuery, endpoint: ImageEndpoint) => string;
+}
+
+function getWidths(width: number, breakpoints: number[]) {
+  const widths = breakpoints.filter((breakpoint) => breakpoint < width);
+  return [...widths, width];
+}
+
+function getSrcSet(
+  props: ImageProps,
+  format: OutputFormat | undefined,
+  loader: NonNullable<ImageProps["loader"]>
+) {
+  const widths = getWidths(props.width, props.breakpoints ?? imageBreakpoints);
+  const quality = format && getEncoderSupport(format)?.quality;
+  return widths
+    .map((w) => {
+      const url = loader(
+        {
+          src: props.src,
+          w,
+          format,
+          q: quality ? props.quality : undefined,
+        },
+        props.endpoint ?? "img"
+      );
+      return `${url} ${w}w`;
+    })
+    .join(", ");
+}
+
+/**
+ * Every URL an `<Image>` with these props can request, for signing them
+ * ahead of rendering.
+ */
+export function getImageUrls(props: ImageProps) {
+  const urls: string[] = [];
+  const collect = (query: TransformQuery, endpoint: ImageEndpoint) => {
+    const url = getImgSrc(query, endpoint);
+    urls.push(url);
+    return url;
+  };
+  for (const format of props.formats ?? ["avif", "webp"]) {
+    getSrcSet(props, format, collect);
+  }
+  getSrcSet(props, undefined, collect);
+  return urls;
+}
+
+/**
+ * Responsive image served by the image endpoint: a <picture> with a <source>
+ * per format, each with a srcset over the breakpoints, and an <img> fallback
+ * that is lazy loaded by default.
+ */
+export function Image({
+  src,
+  width,
+  height,
+  alt,
+  breakpoints,
+  formats = ["avif", "webp"],
+  quality,
+  endpoint,
+  loader = getImgSrc,
+  sizes = "100vw",
+  loading = "lazy",
+  decoding = "async",
+  ...imgProps
+}: ImageProps) {
+  const props = { src, width, height, alt, breakpoints, quality, endpoint };
+
+  return (
+    <picture>
+      {formats.map((format) => (
+        <source
+          key={format}
+          type={`image/${format}`}
+          srcSet={getSrcSet(props, format, loader)}
+          sizes={sizes}
+        />
+      ))}
+      <img
+        {...imgProps}
+        src={loader({ src, w: width }, endpoint ?? "img")}
+        srcSet={getSrcSet(props, undefined, loader)}
+        sizes={sizes}
+        width={width}
+        height={height}
+        alt={alt}
+        loading={loading}
+        decoding={decoding}
+      />
+    </picture>
+  );
+}
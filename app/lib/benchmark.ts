@@ -0,0 +1,146 @@
+import { getImgSrc } from "./transform";
+import type { ImageEndpoint, OutputFormat } from "./transform";
+
+export type BenchmarkFormat = OutputFormat | "original";
+
+export interface BenchmarkMatrix {
+  sources: string[];
+  // null keeps the source size
+  widths: Array<number | null>;
+  // "original" keeps the source format
+  formats: BenchmarkFormat[];
+  endpoints: ImageEndpoint[];
+}
+
+export interface BenchmarkCase {
+  src: string;
+  width: number | null;
+  format: BenchmarkFormat;
+  endpoint: ImageEndpoint;
+  url: string;
+}
+
+export interface BenchmarkSample {
+  // Milliseconds from sending the request until the body was received
+  latency: number;
+  // Peak RSS increase on the server in bytes, null if it wasn't reported
+  peakMemory: number | null;
+  size: number;
+  error: string | null;
+}
+
+export interface BenchmarkResult extends BenchmarkCase {
+  runs: number;
+  errors: number;
+  p50: number | null;
+  p95: number | null;
+  peakMemory: number | null;
+  size: number | null;
+}
+
+/**
+ * Every combination of the matrix, ordered by source, width, format and
+ * endpoint so that the endpoints of a variant end up next to each other.
+ */
+export function createBenchmarkCases(matrix: BenchmarkMatrix) {
+  const cases: BenchmarkCase[] = [];
+  for (const src of matrix.sources) {
+    for (const width of matrix.widths) {
+      for (const format of matrix.formats) {
+        for (const endpoint of matrix.endpoints) {
+          const url = getImgSrc(
+            {
+              src,
+              w: width ?? undefined,
+              format: format === "original" ? undefined : format,
+            },
+            endpoint
+          );
+          cases.push({ src, width, format, endpoint, url });
+        }
+      }
+    }
+  }
+  return cases;
+}
+
+// Nearest-rank percentile of ascending values
+function percentile(sortedValues: number[], p: number) {
+  if (sortedValues.length === 0) {
+    return null;
+  }
+  const rank = Math.ceil((p / 100) * sortedValues.length);
+  return sortedValues[Math.max(rank - 1, 0)];
+}
+
+export function summarizeSamples(
+  benchmarkCase: BenchmarkCase,
+  samples: BenchmarkSample[]
+): BenchmarkResult {
+  const succeeded = samples.filter((sample) => sample.error === null);
+  const latencies = succeeded
+    .map((sample) => sample.latency)
+    .sort((a, b) => a - b);
+  const memory = succeeded
+    .map((sample) => sample.peakMemory)
+    .filter((value): value is number => value !== null);
+
+  return {
+    ...benchmarkCase,
+    runs: samples.length,
+    errors: samples.length - succeeded.length,
+    p50: percentile(latencies, 50),
+    p95: percentile(latencies, 95),
+    peakMemory: memory.length > 0 ? Math.max(...memory) : null,
+    size: succeeded[0]?.size ?? null,
+  };
+}
+
+/**
+ * Runs the tasks with at most `concurrency` of them in flight, calling
+ * `onSettled` as each one finishes.
+ */
+export async function runConcurrently<T>(
+  tasks: Array<() => Promise<T>>,
+  concurrency: number,
+  onSettled: (result: T, index: number) => void
+) {
+  let next = 0;
+  async function worker() {
+    while (next < tasks.length) {
+      const index = next++;
+      onSettled(await tasks[index](), index);
+    }
+  }
+  const workerCount = Math.max(1, Math.min(concurrency, tasks.length));
+  await Promise.all(Array.from({ length: workerCount }, worker));
+}
+
+const csvColumns = [
+  "src",
+  "width",
+  "format",
+  "endpoint",
+  "runs",
+  "errors",
+  "p50",
+  "p95",
+  "peakMemory",
+  "size",
+  "url",
+] as const satisfies Array<keyof BenchmarkResult>;
+
+function toCsvValue(value: string | number | null) {
+  if (value === null) {
+    return "";
+  }
+  const text = typeof value === "number" ? String(value) : value;
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(results: BenchmarkResult[]) {
+  const rows = results.map((result) =>
+    csvColumns.map((column) => toCsvValue(result[column])).join(",")
+  );
+  return [csvColumns.join(","), ...rows].join("\n") + "\n";
+}
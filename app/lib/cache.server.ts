@@ -0,0 +1,265 @@
+import path from "node:path";
+import { createHash, randomUUID } from "node:crypto";
+import { createWriteStream } from "node:fs";
+import {
+  mkdir,
+  open,
+  readdir,
+  rename,
+  rm,
+  stat,
+  utimes,
+  writeFile,
+} from "node:fs/promises";
+import { PassThrough, Readable } from "node:stream";
+import { pipeline } from "node:stream/promises";
+import { cacheConfig } from "./config.server";
+import type { ImageSource } from "./source.server";
+import type { TransformOptions } from "./transform";
+
+interface CacheEntry {
+  file: string;
+  size: number;
+  contentType: string;
+  frames: number;
+}
+
+export interface EncodedVariant {
+  data: Buffer | Readable;
+  contentType: string;
+  // Number of animation frames, 1 for still images
+  frames: number;
+}
+
+export interface Variant {
+  body: Buffer | Readable;
+  contentType: string;
+  frames: number;
+  // Byte size, or null for output that is still being streamed
+  size: number | null;
+  hit: boolean;
+}
+
+const TMP_PREFIX = ".tmp-";
+
+// Map iteration order doubles as LRU order, least recently used first
+const entries = new Map<string, CacheEntry>();
+const pending = new Map<string, Promise<CacheEntry>>();
+let totalBytes = 0;
+let ready: Promise<void> | undefined;
+
+/**
+ * Loads the variants stored by previous runs, oldest first, and removes
+ * leftovers of interrupted writes and files in outdated layouts.
+ */
+async function init() {
+  await mkdir(cacheConfig.dir, { recursive: true });
+  const files = await readdir(cacheConfig.dir);
+  const found = [];
+  for (const name of files) {
+    const file = path.join(cacheConfig.dir, name);
+    // Variants are stored as `<key>.<frames>.<extension>`
+    const match = name.match(/^(\w+)\.(\d+)\.(.+)$/);
+    if (!match) {
+      await rm(file, { force: true });
+      continue;
+    }
+    const [, key, frames, extension] = match;
+    const stats = await stat(file);
+    found.push({
+      key,
+      mtime: stats.mtimeMs,
+      entry: {
+        file,
+        size: stats.size,
+        contentType: `image/${extension}`,
+        frames: Number(frames),
+      },
+    });
+  }
+  found.sort((a, b) => a.mtime - b.mtime);
+  for (const { key, entry } of found) {
+    entries.set(key, entry);
+    totalBytes += entry.size;
+  }
+  await evict();
+}
+
+async function evict() {
+  for (const [key, entry] of entries) {
+    if (totalBytes <= cacheConfig.maxBytes) {
+      break;
+    }
+    entries.delete(key);
+    totalBytes -= entry.size;
+    await rm(entry.file, { force: true });
+  }
+}
+
+function remember(key: string, entry: CacheEntry) {
+  const previous = entries.get(key);
+  if (previous) {
+    entries.delete(key);
+    totalBytes -= previous.size;
+  }
+  entries.set(key, entry);
+  totalBytes += entry.size;
+}
+
+/**
+ * Writes a variant to a temporary file first and moves it into place once
+ * complete, so readers never see partial files. Streams are piped
+ * synchronously so no chunk is missed by a concurrent reader of `data`.
+ */
+async function store(
+  key: string,
+  { data, contentType, frames }: EncodedVariant
+) {
+  const extension = contentType.replace("image/", "");
+  const file = path.join(cacheConfig.dir, `${key}.${frames}.${extension}`);
+  const tmp = path.join(cacheConfig.dir, `${TMP_PREFIX}${randomUUID()}`);
+  try {
+    await (Buffer.isBuffer(data)
+      ? writeFile(tmp, data)
+      : pipeline(data, createWriteStream(tmp)));
+    const { size } = await stat(tmp);
+    await rename(tmp, file);
+    const entry = { file, size, contentType, frames };
+    remember(key, entry);
+    await evict();
+    return entry;
+  } catch (error) {
+    console.error(error);
+    await rm(tmp, { force: true });
+    throw error;
+  }
+}
+
+function sizeOf(data: Buffer | Readable) {
+  return Buffer.isBuffer(data) ? data.length : null;
+}
+
+async function read(key: string, entry: CacheEntry) {
+  // Open before streaming so a concurrent eviction can't pull the file away
+  const handle = await open(entry.file, "r").catch(() => null);
+  if (!handle) {
+    entries.delete(key);
+    totalBytes -= entry.size;
+    return null;
+  }
+  const now = new Date();
+  utimes(entry.file, now, now).catch(() => {});
+  return handle.createReadStream();
+}
+
+// Path, mtime and size for local files, the URL for remote ones
+export function getSourceIdentity(source: ImageSource) {
+  return source.type === "local"
+    ? [source.path, source.mtime.getTime(), source.size]
+    : [source.url.href];
+}
+
+/**
+ * Identifies a variant by its source, the overlay source if any, and the
+ * normalized transform options.
+ */
+export function getCacheKey(
+  source: ImageSource,
+  options: TransformOptions,
+  overlay: ImageSource | null = null
+) {
+  const identities = [source, ...(overlay ? [overlay] : [])].map(
+    getSourceIdentity
+  );
+  return createHash("sha256")
+    .update(JSON.stringify([...identities, options]))
+    .digest("hex");
+}
+
+/**
+ * Serves a variant from the disk cache, or encodes and stores it on a miss.
+ * Concurrent misses for the same key share a single encode: the first
+ * request streams the fresh output while the others wait for it to be
+ * stored and read it back from disk. `refresh` skips the cache and any
+ * running encode, and starts one that later misses wait for instead.
+ */
+export async function getOrCreateVariant(
+  key: string,
+  encode: () => Promise<EncodedVariant>,
+  { refresh = false } = {}
+): Promise<Variant> {
+  if (cacheConfig.maxBytes <= 0) {
+    const { data, contentType, frames } = await encode();
+    return { body: data, contentType, frames, size: sizeOf(data), hit: false };
+  }
+
+  ready ??= init();
+  await ready;
+
+  const inflight = refresh ? null : pending.get(key);
+  if (inflight) {
+    const entry = await inflight;
+    const body = await read(key, entry);
+    if (body) {
+      return {
+        body,
+        contentType: entry.contentType,
+        frames: entry.frames,
+        size: entry.size,
+        hit: false,
+      };
+    }
+  }
+
+  const cached = entries.get(key);
+  if (!refresh && cached) {
+    const body = await read(key, cached);
+    if (body) {
+      remember(key, cached);
+      return {
+        body,
+        contentType: cached.contentType,
+        frames: cached.frames,
+        size: cached.size,
+        hit: true,
+      };
+    }
+  }
+
+  const encoding = encode().then((variant) => {
+    if (Buffer.isBuffer(variant.data)) {
+      return { variant, body: variant.data, stored: store(key, variant) };
+    }
+    // Tee the output stream into the cache file and the response
+    const body = new PassThrough();
+    variant.data.on("error", (error) => body.destroy(error));
+    variant.data.pipe(body);
+    return { variant, body, stored: store(key, variant) };
+  });
+  const stored = encoding.then(({ stored }) => stored);
+  pending.set(key, stored);
+  // Errors reach every request awaiting this encode
+  stored
+    .catch(() => {})
+    .finally(() => {
+      // A refresh may have replaced this encode in the meantime
+      if (pending.get(key) === stored) {
+        pending.delete(key);
+      }
+    });
+
+  const { variant, body } = await encoding;
+  return {
+    body,
+    contentType: variant.contentType,
+    frames: variant.frames,
+    size: sizeOf(body),
+    hit: false,
+  };
+}
+
+export function toResponseBody(body: Buffer | Readable) {
+  return Buffer.isBuffer(body)
+    ? new Uint8Array(body)
+    : (Readable.toWeb(body) as any);
+}
@@ -0,0 +1,24 @@
+import sharp from "sharp";
+import type { FormatEnum } from "sharp";
+import { outputFormats } from "./transform";
+import type { OutputFormat } from "./transform";
+
+// libvips names AVIF output after its HEIF container
+const sharpFormats: Record<OutputFormat, keyof FormatEnum> = {
+  webp: "webp",
+  avif: "heif",
+  jpeg: "jpeg",
+  png: "png",
+  gif: "gif",
+  tiff: "tiff",
+  jxl: "jxl",
+};
+
+/**
+ * Output formats the installed libvips can encode to buffers and streams,
+ * detected once at startup. JPEG XL, for example, is missing from sharp's
+ * prebuilt binaries.
+ */
+export const availableFormats: readonly OutputFormat[] = outputFormats.filter(
+  (format) => sharp.format[sharpFormats[format]]?.output.buffer
+);
@@ -0,0 +1,86 @@
+import path from "node:path";
+
+function readList(name: string) {
+  return (process.env[name] ?? "")
+    .split(",")
+    .map((value) => value.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+function readNumber(name: string, fallback: number) {
+  const value = Number(process.env[name]);
+  return process.env[name] && Number.isFinite(value) ? value : fallback;
+}
+
+export const remoteSourceConfig = {
+  // Hostnames remote sources may be fetched from, e.g. `images.example.com`
+  // or `*.example.com`. Remote sources are disabled while this is empty.
+  allowedHosts: readList("IMG_REMOTE_HOSTS"),
+  maxBytes: readNumber("IMG_REMOTE_MAX_BYTES", 10 * 1000 * 1000),
+  timeoutMs: readNumber("IMG_REMOTE_TIMEOUT_MS", 5000),
+};
+
+export const cacheConfig = {
+  // Directory transformed variants are stored in
+  dir: process.env.IMG_CACHE_DIR || path.join(process.cwd(), ".cache", "img"),
+  // Least recently used variants are evicted above this size, 0 disables caching
+  maxBytes: readNumber("IMG_CACHE_MAX_BYTES", 500 * 1000 * 1000),
+};
+
+export const httpCacheConfig = {
+  // Cache-Control sent with image responses. Variants never change for a
+  // given URL and source version, so they are immutable by default.
+  cacheControl:
+    process.env.IMG_CACHE_CONTROL || "public, max-age=31536000, immutable",
+};
+
+export const animationConfig = {
+  // Upper bound for frames × width × height of animated sources
+  maxPixels: readNumber("IMG_MAX_ANIMATION_PIXELS", 100 * 1000 * 1000),
+};
+
+export const signingConfig = {
+  // Comma-separated secrets. The first signs new URLs, all of them verify,
+  // so keys can be rotated by prepending a new one. Empty disables signing.
+  keys: (process.env.IMG_SIGNING_KEYS ?? "")
+    .split(",")
+    .map((key) => key.trim())
+    .filter(Boolean),
+  // Lets the playground pages sign the preview URLs posted to them. Anyone
+  // who can reach the playground can then sign URLs within the limits.
+  playground: process.env.IMG_SIGN_PLAYGROUND === "true",
+};
+
+export const limitsConfig = {
+  // Largest width and height that can be requested
+  maxWidth: readNumber("IMG_MAX_WIDTH", 8192),
+  maxHeight: readNumber("IMG_MAX_HEIGHT", 8192),
+  // Upper bound for width × height of a source image (sharp's limitInputPixels)
+  maxInputPixels: readNumber("IMG_MAX_INPUT_PIXELS", 50 * 1000 * 1000),
+  // Processing time after which sharp gives up on an image
+  timeoutSeconds: readNumber("IMG_TIMEOUT_SECONDS", 30),
+  // Images processed at once, further requests wait in a queue of maxQueued
+  // and are turned away with 503 once it is full
+  maxConcurrent: readNumber("IMG_MAX_CONCURRENCY", 4),
+  maxQueued: readNumber("IMG_MAX_QUEUE", 32),
+  retryAfterSeconds: readNumber("IMG_RETRY_AFTER_SECONDS", 5),
+  // Only allows requests for a source with a preset, without further params
+  presetsOnly: process.env.IMG_PRESETS_ONLY === "true",
+};
+
+export const uploadConfig = {
+  // Directory uploaded source images are stored in, served as `/uploads/<name>`
+  dir:
+    process.env.IMG_UPLOAD_DIR || path.join(process.cwd(), ".cache", "uploads"),
+  // Largest file that can be uploaded, 0 disables uploads
+  maxBytes: readNumber("IMG_UPLOAD_MAX_BYTES", 10 * 1000 * 1000),
+  // Uploads are deleted this long after they were stored
+  ttlSeconds: readNumber("IMG_UPLOAD_TTL_SECONDS", 60 * 60),
+  // The oldest uploads are deleted to stay within this number of files
+  maxFiles: readNumber("IMG_UPLOAD_MAX_FILES", 100),
+};
+
+export const overlayConfig = {
+  // Overlay sources kept in memory, least recently used are evicted first
+  cacheMaxBytes: readNumber("IMG_OVERLAY_CACHE_MAX_BYTES", 20 * 1000 * 1000),
+};
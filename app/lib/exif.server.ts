@@ -0,0 +1,404 @@
+import { Transform } from "node:stream";
+import { crc32 } from "node:zlib";
+import { sniffImageType } from "./image-type";
+import type { TransformOptions } from "./transform";
+
+const EXIF_HEADER = Buffer.from("Exif\0\0", "latin1");
+const TIFF_HEADERS = [
+  Buffer.from("II*\0", "latin1"),
+  Buffer.from("MM\0*", "latin1"),
+];
+
+const TAG_ARTIST = 0x013b;
+const TAG_COPYRIGHT = 0x8298;
+// Tags pointing to the Exif, GPS and Interoperability sub-IFDs
+const TAG_EXIF_IFD = 0x8769;
+const TAG_GPS_IFD = 0x8825;
+const TAG_INTEROP_IFD = 0xa005;
+const subIfdTags = [TAG_EXIF_IFD, TAG_GPS_IFD, TAG_INTEROP_IFD];
+// Embedded JPEG thumbnail of IFD1, as offset and length
+const TAG_THUMBNAIL_OFFSET = 0x0201;
+const TAG_THUMBNAIL_LENGTH = 0x0202;
+
+// Bytes per component of each TIFF field type
+const typeSizes: Record<number, number> = {
+  1: 1,
+  2: 1,
+  3: 2,
+  4: 4,
+  5: 8,
+  6: 1,
+  7: 1,
+  8: 2,
+  9: 4,
+  10: 8,
+  11: 4,
+  12: 8,
+};
+
+interface Tiff {
+  data: Buffer;
+  littleEndian: boolean;
+}
+
+function readUInt16(tiff: Tiff, offset: number) {
+  return tiff.littleEndian
+    ? tiff.data.readUInt16LE(offset)
+    : tiff.data.readUInt16BE(offset);
+}
+
+function readUInt32(tiff: Tiff, offset: number) {
+  return tiff.littleEndian
+    ? tiff.data.readUInt32LE(offset)
+    : tiff.data.readUInt32BE(offset);
+}
+
+function writeUInt16(tiff: Tiff, value: number, offset: number) {
+  if (tiff.littleEndian) {
+    tiff.data.writeUInt16LE(value, offset);
+  } else {
+    tiff.data.writeUInt16BE(value, offset);
+  }
+}
+
+function isValidIfd(tiff: Tiff, offset: number) {
+  if (offset < 8 || offset + 2 > tiff.data.length) {
+    return false;
+  }
+  const count = readUInt16(tiff, offset);
+  return count > 0 && offset + 2 + count * 12 + 4 <= tiff.data.length;
+}
+
+// Byte range of the TIFF structure in an encoded image, and for PNG the
+// offset of the CRC of the chunk holding it
+interface ExifBlock {
+  start: number;
+  end: number;
+  crc?: number;
+}
+
+// JPEG stores EXIF in an APP1 segment, prefixed with the EXIF header
+function findJpegExif(data: Buffer): ExifBlock | null {
+  let offset = 2;
+  while (offset + 4 <= data.length && data[offset] === 0xff) {
+    const marker = data[offset + 1];
+    // Start of scan, only image data follows
+    if (marker === 0xda) {
+      return null;
+    }
+    const length = data.readUInt16BE(offset + 2);
+    const payload = offset + 4;
+    if (
+      marker === 0xe1 &&
+      data.subarray(payload, payload + 6).equals(EXIF_HEADER)
+    ) {
+      return { start: payload + 6, end: offset + 2 + length };
+    }
+    offset += 2 + length;
+  }
+  return null;
+}
+
+function findPngExif(data: Buffer): ExifBlock | null {
+  let offset = 8;
+  while (offset + 12 <= data.length) {
+    const length = data.readUInt32BE(offset);
+    const type = data.toString("latin1", offset + 4, offset + 8);
+    if (type === "eXIf") {
+      const end = offset + 8 + length;
+      return { start: offset + 8, end, crc: end };
+    }
+    if (type === "IEND") {
+      return null;
+    }
+    offset += 12 + length;
+  }
+  return null;
+}
+
+// WebP writers differ in whether the EXIF chunk starts with the EXIF header
+function findWebpExif(data: Buffer): ExifBlock | null {
+  let offset = 12;
+  while (offset + 8 <= data.length) {
+    const size = data.readUInt32LE(offset + 4);
+    const payload = offset + 8;
+    if (data.toString("latin1", offset, offset + 4) === "EXIF") {
+      const header = data.subarray(payload, payload + 6).equals(EXIF_HEADER);
+      return { start: payload + (header ? 6 : 0), end: payload + size };
+    }
+    // Chunks are padded to an even size
+    offset = payload + size + (size % 2);
+  }
+  return null;
+}
+
+function readUInt(data: Buffer, offset: number, size: number) {
+  if (size === 8) {
+    return Number(data.readBigUInt64BE(offset));
+  }
+  return size === 0 ? 0 : data.readUIntBE(offset, size);
+}
+
+// ISOBMFF boxes between `start` and `end`, with the range of their content
+function readBoxes(data: Buffer, start: number, end: number) {
+  const boxes: { type: string; start: number; end: number }[] = [];
+  let offset = start;
+  while (offset + 8 <= end) {
+    let size = data.readUInt32BE(offset);
+    let header = 8;
+    if (size === 1 && offset + 16 <= end) {
+      size = readUInt(data, offset + 8, 8);
+      header = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < header) {
+      break;
+    }
+    const type = data.toString("latin1", offset + 4, offset + 8);
+    boxes.push({ type, start: offset + header, end: offset + size });
+    offset += size;
+  }
+  return boxes;
+}
+
+/**
+ * AVIF and HEIF store EXIF as an item of the `meta` box: `iinf` gives its
+ * ID, `iloc` its position in the file. The item starts with the offset of
+ * the TIFF header from the end of that field.
+ */
+function findIsobmffExif(data: Buffer): ExifBlock | null {
+  const meta = readBoxes(data, 0, data.length).find(
+    (box) => box.type === "meta"
+  );
+  if (!meta) {
+    return null;
+  }
+  // Full boxes start with a version byte and three flag bytes
+  const children = readBoxes(data, meta.start + 4, meta.end);
+  const iinf = children.find((box) => box.type === "iinf");
+  const iloc = children.find((box) => box.type === "iloc");
+  if (!iinf || !iloc) {
+    return null;
+  }
+
+  const iinfCount = data[iinf.start] === 0 ? 2 : 4;
+  let itemId: number | null = null;
+  for (const infe of readBoxes(data, iinf.start + 4 + iinfCount, iinf.end)) {
+    const version = data[infe.start];
+    // Only version 2 and later declare the item type
+    if (infe.type !== "infe" || version < 2) {
+      continue;
+    }
+    const idSize = version === 2 ? 2 : 4;
+    const type = infe.start + 4 + idSize + 2;
+    if (data.toString("latin1", type, type + 4) === "Exif") {
+      itemId = readUInt(data, infe.start + 4, idSize);
+      break;
+    }
+  }
+  if (itemId === null) {
+    return null;
+  }
+
+  const version = data[iloc.start];
+  const offsetSize = data[iloc.start + 4] >> 4;
+  const lengthSize = data[iloc.start + 4] & 0xf;
+  const baseOffsetSize = data[iloc.start + 5] >> 4;
+  const indexSize = version === 0 ? 0 : data[iloc.start + 5] & 0xf;
+  const idSize = version < 2 ? 2 : 4;
+  let offset = iloc.start + 6;
+  const count = readUInt(data, offset, idSize);
+  offset += idSize;
+  for (let i = 0; i < count && offset < iloc.end; i++) {
+    const id = readUInt(data, offset, idSize);
+    offset += idSize;
+    // Construction method 0 points into the file, the others into boxes
+    const method = version === 0 ? 0 : data.readUInt16BE(offset) & 0xf;
+    offset += version === 0 ? 2 : 4;
+    const baseOffset = readUInt(data, offset, baseOffsetSize);
+    offset += baseOffsetSize;
+    const extents = data.readUInt16BE(offset);
+    offset += 2;
+    if (id === itemId) {
+      if (method !== 0 || extents !== 1) {
+        return null;
+      }
+      const start = baseOffset + readUInt(data, offset + indexSize, offsetSize);
+      const length = readUInt(
+        data,
+        offset + indexSize + offsetSize,
+        lengthSize
+      );
+      if (start + 4 > data.length) {
+        return null;
+      }
+      return {
+        start: start + 4 + data.readUInt32BE(start),
+        end: start + length,
+      };
+    }
+    offset += extents * (indexSize + offsetSize + lengthSize);
+  }
+  return null;
+}
+
+// The JPEG XL container stores EXIF in a top-level box, like an AVIF item
+function findJxlExif(data: Buffer): ExifBlock | null {
+  const box = readBoxes(data, 0, data.length).find(
+    (box) => box.type === "Exif"
+  );
+  if (!box || box.start + 4 > box.end) {
+    return null;
+  }
+  return { start: box.start + 4 + data.readUInt32BE(box.start), end: box.end };
+}
+
+/**
+ * Finds the EXIF block in the container of an encoded image. sharp doesn't
+ * write EXIF into GIF and TIFF output, and a TIFF's own IFDs must not be
+ * mistaken for it.
+ */
+function findExif(data: Buffer): ExifBlock | null {
+  switch (sniffImageType(data)) {
+    case "image/jpeg":
+      return findJpegExif(data);
+    case "image/png":
+      return findPngExif(data);
+    case "image/webp":
+      return findWebpExif(data);
+    case "image/avif":
+    case "image/heif":
+      return findIsobmffExif(data);
+    case "image/jxl":
+      return findJxlExif(data);
+    default:
+      return null;
+  }
+}
+
+function findTiff(block: ExifBlock, data: Buffer): Tiff | null {
+  if (block.start < 0 || block.start + 8 > block.end) {
+    return null;
+  }
+  const tiffData = data.subarray(block.start, Math.min(block.end, data.length));
+  const header = tiffData.subarray(0, 4);
+  const littleEndian = header.equals(TIFF_HEADERS[0]);
+  if (!littleEndian && !header.equals(TIFF_HEADERS[1])) {
+    return null;
+  }
+  const tiff = { data: tiffData, littleEndian };
+  return isValidIfd(tiff, readUInt32(tiff, 4)) ? tiff : null;
+}
+
+// Zeroes the bytes of an entry's value when it doesn't fit into the entry
+function clearValue(tiff: Tiff, entry: number) {
+  const type = readUInt16(tiff, entry + 2);
+  const size = (typeSizes[type] ?? 0) * readUInt32(tiff, entry + 4);
+  if (size > 4) {
+    const offset = readUInt32(tiff, entry + 8);
+    tiff.data.fill(0, offset, Math.min(offset + size, tiff.data.length));
+  }
+}
+
+/**
+ * Removes the entries of an IFD that `keep` rejects, zeroing their values
+ * and any sub-IFDs they point to so no data is left behind unreferenced.
+ * The remaining entries and the link to the next IFD are moved up, so sizes
+ * don't change. Returns the new offset of the link.
+ */
+function filterIfd(tiff: Tiff, ifd: number, keep: (tag: number) => boolean) {
+  if (!isValidIfd(tiff, ifd)) {
+    return null;
+  }
+  const count = readUInt16(tiff, ifd);
+  const kept: Buffer[] = [];
+  const thumbnail = [0, 0];
+  for (let i = 0; i < count; i++) {
+    const entry = ifd + 2 + i * 12;
+    const tag = readUInt16(tiff, entry);
+    if (keep(tag)) {
+      kept.push(Buffer.from(tiff.data.subarray(entry, entry + 12)));
+      continue;
+    }
+    if (subIfdTags.includes(tag)) {
+      filterIfd(tiff, readUInt32(tiff, entry + 8), () => false);
+    } else if (tag === TAG_THUMBNAIL_OFFSET) {
+      thumbnail[0] = readUInt32(tiff, entry + 8);
+    } else if (tag === TAG_THUMBNAIL_LENGTH) {
+      thumbnail[1] = readUInt32(tiff, entry + 8);
+    }
+    clearValue(tiff, entry);
+  }
+  tiff.data.fill(
+    0,
+    Math.min(thumbnail[0], tiff.data.length),
+    Math.min(thumbnail[0] + thumbnail[1], tiff.data.length)
+  );
+
+  const entries = ifd + 2;
+  const next = Buffer.from(
+    tiff.data.subarray(entries + count * 12, entries + count * 12 + 4)
+  );
+  tiff.data.fill(0, entries, entries + count * 12 + 4);
+  kept.forEach((entry, i) => entry.copy(tiff.data, entries + i * 12));
+  writeUInt16(tiff, kept.length, ifd);
+  const link = entries + kept.length * 12;
+  next.copy(tiff.data, link);
+  return link;
+}
+
+/**
+ * Removes what the metadata options exclude from the EXIF block sharp copied
+ * into an encoded image: GPS data for `metadata=keep` (unless `keepGps`),
+ * everything but Artist and Copyright for `metadata=copyright`. sharp can
+ * only keep or drop EXIF as a whole, so the block is edited in place and
+ * the CRC of a PNG chunk updated.
+ */
+export function filterExif(data: Buffer, options: TransformOptions) {
+  const removeGps = options.metadata === "keep" && !options.keepGps;
+  if (!removeGps && options.metadata !== "copyright") {
+    return;
+  }
+  const block = findExif(data);
+  const tiff = block && findTiff(block, data);
+  if (!block || !tiff) {
+    return;
+  }
+
+  const ifd0 = readUInt32(tiff, 4);
+  if (removeGps) {
+    filterIfd(tiff, ifd0, (tag) => tag !== TAG_GPS_IFD);
+  } else {
+    const link = filterIfd(
+      tiff,
+      ifd0,
+      (tag) => tag === TAG_ARTIST || tag === TAG_COPYRIGHT
+    );
+    // IFD1 holds the thumbnail, which shows the uncropped image
+    if (link !== null && readUInt32(tiff, link) !== 0) {
+      filterIfd(tiff, readUInt32(tiff, link), () => false);
+      tiff.data.fill(0, link, link + 4);
+    }
+  }
+  // PNG chunks end with the CRC of their type and data
+  if (block.crc !== undefined && block.crc + 4 <= data.length) {
+    data.writeUInt32BE(
+      crc32(data.subarray(block.start - 4, block.crc)),
+      block.crc
+    );
+  }
+}
+
+/**
+ * `filterExif` for streamed output. sharp pushes the encoded image as a
+ * single chunk, so the EXIF block is never split between chunks.
+ */
+export function createExifFilter(options: TransformOptions) {
+  return new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      filterExif(chunk, options);
+      callback(null, chunk);
+    },
+  });
+}
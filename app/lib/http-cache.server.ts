@@ -0,0 +1,61 @@
+import { getCacheKey } from "./cache.server";
+import { httpCacheConfig } from "./config.server";
+import type { ImageSource } from "./source.server";
+import type { TransformOptions } from "./transform";
+
+/**
+ * Validators and caching headers for an image response. The ETag is strong
+ * since the same source version and options always encode the same bytes.
+ * With an overlay, the later modification of both sources counts.
+ */
+export function getCacheHeaders(
+  source: ImageSource,
+  options: TransformOptions,
+  overlay: ImageSource | null = null
+) {
+  const headers: Record<string, string> = {
+    ETag: `"${getCacheKey(source, options, overlay)}"`,
+    "Cache-Control": httpCacheConfig.cacheControl,
+  };
+  // Remote sources don't tell when they changed
+  const sources = [source, ...(overlay ? [overlay] : [])];
+  if (sources.every((source) => source.type === "local")) {
+    const mtimes = sources.map((source) =>
+      source.type === "local" ? source.mtime.getTime() : 0
+    );
+    headers["Last-Modified"] = new Date(Math.max(...mtimes)).toUTCString();
+  }
+  if (options.autoFormat) {
+    headers["Vary"] = "Accept";
+  }
+  return headers;
+}
+
+/**
+ * Evaluates If-None-Match, or If-Modified-Since when no entity tags are
+ * sent, against the headers from `getCacheHeaders`.
+ */
+export function isNotModified(
+  request: Request,
+  headers: Record<string, string>
+) {
+  const ifNoneMatch = request.headers.get("If-None-Match");
+  if (ifNoneMatch) {
+    // If-None-Match uses the weak comparison
+    const etag = headers["ETag"];
+    return ifNoneMatch
+      .split(",")
+      .map((tag) => tag.trim().replace(/^W\//, ""))
+      .some((tag) => tag === "*" || tag === etag);
+  }
+
+  const ifModifiedSince = Date.parse(
+    request.headers.get("If-Modified-Since") ?? ""
+  );
+  const lastModified = Date.parse(headers["Last-Modified"] ?? "");
+  return (
+    !isNaN(ifModifiedSince) &&
+    !isNaN(lastModified) &&
+    lastModified <= ifModifiedSince
+  );
+}
@@ -0,0 +1,78 @@
+import sharp from "sharp";
+import { sniffImageType } from "./image-type";
+
+/**
+ * Reads the profile description from the `desc` tag of an ICC profile, e.g.
+ * "sRGB IEC61966-2.1" or "Display P3".
+ */
+function getIccDescription(icc: Buffer) {
+  if (icc.length < 132) {
+    return null;
+  }
+  const tagCount = icc.readUInt32BE(128);
+  for (let i = 0; i < tagCount; i++) {
+    const entry = 132 + i * 12;
+    if (entry + 12 > icc.length) {
+      return null;
+    }
+    if (icc.toString("latin1", entry, entry + 4) !== "desc") {
+      continue;
+    }
+    const offset = icc.readUInt32BE(entry + 4);
+    const size = icc.readUInt32BE(entry + 8);
+    const tag = icc.subarray(offset, offset + size);
+    const type = tag.toString("latin1", 0, 4);
+    // ICC v2 profiles describe themselves in ASCII
+    if (type === "desc" && tag.length >= 12) {
+      const length = tag.readUInt32BE(8);
+      return tag
+        .toString("latin1", 12, 12 + length)
+        .replace(/\0+$/, "")
+        .trim();
+    }
+    // ICC v4 profiles use localized UTF-16 strings, the first one is taken
+    if (type === "mluc" && tag.length >= 28) {
+      const length = tag.readUInt32BE(20);
+      const start = tag.readUInt32BE(24);
+      return tag
+        .subarray(start, start + length)
+        .swap16()
+        .toString("utf16le")
+        .trim();
+    }
+    return null;
+  }
+  return null;
+}
+
+/**
+ * The sharp metadata of an encoded image, reduced to what tells variants
+ * apart. Only the header is read, the image isn't decoded.
+ */
+export async function getImageInfo(data: Buffer) {
+  const metadata = await sharp(data).metadata();
+  return {
+    format: metadata.format ?? null,
+    contentType: sniffImageType(data),
+    // Animations report the size of a single frame
+    width: metadata.width ?? null,
+    height: metadata.pageHeight ?? metadata.height ?? null,
+    channels: metadata.channels ?? null,
+    space: metadata.space ?? null,
+    depth: metadata.depth ?? null,
+    density: metadata.density ?? null,
+    hasAlpha: metadata.hasAlpha ?? false,
+    isProgressive: metadata.isProgressive ?? false,
+    // EXIF orientation, 1 is upright
+    orientation: metadata.orientation ?? null,
+    iccProfile: metadata.icc
+      ? {
+          description: getIccDescription(Buffer.from(metadata.icc)),
+          size: metadata.icc.length,
+        }
+      : null,
+    hasExif: Boolean(metadata.exif),
+    pages: metadata.pages ?? 1,
+    size: data.length,
+  };
+}
@@ -0,0 +1,68 @@
+function startsWith(bytes: Uint8Array, signature: number[], offset = 0) {
+  return signature.every((byte, index) => bytes[offset + index] === byte);
+}
+
+function ascii(bytes: Uint8Array, start: number, end: number) {
+  return String.fromCharCode(...bytes.subarray(start, end));
+}
+
+/**
+ * Number of leading bytes `sniffImageType` needs to recognize every format.
+ */
+export const SNIFF_LENGTH = 256;
+
+/**
+ * Detects the image MIME type from the file's magic bytes.
+ * Returns null if the bytes don't belong to a known image format.
+ */
+export function sniffImageType(bytes: Uint8Array): string | null {
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) {
+    return "image/png";
+  }
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) {
+    return "image/jpeg";
+  }
+  if (ascii(bytes, 0, 6) === "GIF87a" || ascii(bytes, 0, 6) === "GIF89a") {
+    return "image/gif";
+  }
+  if (ascii(bytes, 0, 4) === "RIFF" && ascii(bytes, 8, 12) === "WEBP") {
+    return "image/webp";
+  }
+  if (ascii(bytes, 4, 8) === "ftyp") {
+    const brand = ascii(bytes, 8, 12);
+    if (brand === "avif" || brand === "avis") {
+      return "image/avif";
+    }
+    if (["heic", "heix", "mif1", "msf1"].includes(brand)) {
+      return "image/heif";
+    }
+  }
+  if (
+    startsWith(bytes, [0x49, 0x49, 0x2a, 0x00]) ||
+    startsWith(bytes, [0x4d, 0x4d, 0x00, 0x2a])
+  ) {
+    return "image/tiff";
+  }
+  if (
+    startsWith(bytes, [0xff, 0x0a]) ||
+    startsWith(bytes, [0x00, 0x00, 0x00, 0x0c, 0x4a, 0x58, 0x4c, 0x20])
+  ) {
+    return "image/jxl";
+  }
+  if (startsWith(bytes, [0x00, 0x00, 0x01, 0x00])) {
+    return "image/x-icon";
+  }
+  if (ascii(bytes, 0, 2) === "BM") {
+    return "image/bmp";
+  }
+
+  const text = ascii(bytes, 0, SNIFF_LENGTH).trimStart();
+  if (
+    text.startsWith("<svg") ||
+    (text.startsWith("<?xml") && text.includes("<svg"))
+  ) {
+    return "image/svg+xml";
+  }
+
+  return null;
+}
@@ -0,0 +1,148 @@
+import type { Metadata } from "sharp";
+import { limitsConfig } from "./config.server";
+import { invariantResponse, limitResponse } from "./responses";
+import { SIGNATURE_PARAM } from "./signing.server";
+import type { TransformOptions } from "./transform";
+
+const presetOnlyParams = ["src", "preset", SIGNATURE_PARAM];
+
+/**
+ * Throws a 400 Response for requests that set params besides `src` and
+ * `preset` while IMG_PRESETS_ONLY is set.
+ */
+export function checkPresetsOnly(searchParams: URLSearchParams) {
+  if (!limitsConfig.presetsOnly) {
+    return;
+  }
+  invariantResponse(
+    searchParams.get("preset"),
+    "Only presets are allowed, request an image with src and preset",
+    400
+  );
+  const param = [...searchParams.keys()].find(
+    (name) => !presetOnlyParams.includes(name)
+  );
+  invariantResponse(
+    !param,
+    `Only presets are allowed, ${param} can't be set`,
+    400
+  );
+}
+
+/**
+ * Size of the image the transforms produce from a source with the given
+ * metadata, per frame for animations. Trimming only makes it smaller, so it
+ * is left out.
+ */
+function getOutputSize(options: TransformOptions, metadata: Metadata) {
+  let width = metadata.width ?? 0;
+  let height = metadata.pageHeight ?? metadata.height ?? 0;
+  // EXIF orientations 5 to 8 turn the image by 90 degrees
+  if (options.autoOrient !== false && (metadata.orientation ?? 1) >= 5) {
+    [width, height] = [height, width];
+  }
+  if (options.crop && !options.cropAfterResize) {
+    ({ width, height } = options.crop);
+  }
+
+  const fitsBox = options.fit !== "inside" && options.fit !== "outside";
+  if (options.width !== null && options.height !== null && fitsBox) {
+    width = options.width;
+    height = options.height;
+  } else if (options.width !== null || options.height !== null) {
+    const scales = [
+      options.width !== null ? options.width / width : null,
+      options.height !== null ? options.height / height : null,
+    ].filter((scale) => scale !== null);
+    let scale =
+      options.fit === "outside" ? Math.max(...scales) : Math.min(...scales);
+    if (options.withoutEnlargement) {
+      scale = Math.min(scale, 1);
+    }
+    width = Math.max(1, Math.round(width * scale));
+    height = Math.max(1, Math.round(height * scale));
+  }
+
+  if (options.crop && options.cropAfterResize) {
+    ({ width, height } = options.crop);
+  }
+  if (options.rotate !== null) {
+    const radians = (options.rotate * Math.PI) / 180;
+    const cos = Math.abs(Math.cos(radians));
+    const sin = Math.abs(Math.sin(radians));
+    [width, height] = [
+      Math.round(width * cos + height * sin),
+      Math.round(width * sin + height * cos),
+    ];
+  }
+  return { width, height };
+}
+
+/**
+ * Throws a 400 Response if the output is larger than allowed. Without the
+ * source's metadata only the requested size is checked, with it the size
+ * the transforms produce, since a single dimension or `fit=outside` can
+ * make the other one arbitrarily large.
+ */
+export function checkOutputSize(
+  options: TransformOptions,
+  metadata?: Metadata
+) {
+  // Placeholders are always tiny
+  const size =
+    metadata && !options.placeholder
+      ? getOutputSize(options, metadata)
+      : { width: options.width, height: options.height };
+  const dimensions = [
+    ["width", size.width, limitsConfig.maxWidth],
+    ["height", size.height, limitsConfig.maxHeight],
+  ] as const;
+  for (const [limit, value, max] of dimensions) {
+    if (value !== null && value > max) {
+      throw limitResponse(
+        `${limit[0].toUpperCase()}${limit.slice(1)} must not exceed ${max}`,
+        400,
+        { limit, max, value }
+      );
+    }
+  }
+}
+
+let active = 0;
+const waiting: Array<() => void> = [];
+
+/**
+ * Waits for one of the `maxConcurrent` processing slots and resolves with a
+ * function that frees it again. Throws a 503 Response with Retry-After when
+ * `maxQueued` requests are already waiting.
+ */
+export async function acquireWorkSlot() {
+  if (active >= limitsConfig.maxConcurrent) {
+    if (waiting.length >= limitsConfig.maxQueued) {
+      throw limitResponse(
+        "Server is busy, try again later",
+        503,
+        { limit: "queue", max: limitsConfig.maxQueued },
+        { "Retry-After": String(limitsConfig.retryAfterSeconds) }
+      );
+    }
+    // The releasing request hands its slot over, so `active` stays the same
+    await new Promise<void>((resolve) => waiting.push(resolve));
+  } else {
+    active++;
+  }
+
+  let released = false;
+  return function release() {
+    if (released) {
+      return;
+    }
+    released = true;
+    const next = waiting.shift();
+    if (next) {
+      next();
+    } else {
+      active--;
+    }
+  };
+}
@@ -0,0 +1,19 @@
+import { setFlagsFromString } from "v8";
+import { runInNewContext } from "vm";
+
+export type MemorySnapshot = {
+  rss: number;
+  external: number;
+  arrayBuffers: number;
+};
+
+export function clearMemory() {
+  setFlagsFromString("--expose_gc");
+  const gc = runInNewContext("gc");
+  gc();
+}
+
+export function getMemorySnapshot(): MemorySnapshot {
+  const { rss, external, arrayBuffers } = process.memoryUsage();
+  return { rss, external, arrayBuffers };
+}
@@ -0,0 +1,119 @@
+import { randomUUID } from "node:crypto";
+import { finished, Readable } from "node:stream";
+import { getMemorySnapshot } from "./memory.server";
+import type { MemorySnapshot } from "./memory.server";
+
+export type RequestStats = {
+  id: string;
+  // Highest increase over the usage at the start of the request, in bytes.
+  // Memory is measured for the whole process, so concurrent requests add up.
+  peakMemory: MemorySnapshot;
+  // Phase durations and the `total`, in milliseconds
+  timings: Record<string, number>;
+  // Whether the response body was sent completely
+  complete: boolean;
+};
+
+const SAMPLE_INTERVAL_MS = 5;
+const MAX_STORED_STATS = 100;
+
+// Stats of recently finished requests, oldest first
+const finishedStats = new Map<string, RequestStats>();
+
+export function getRequestStats(id: string) {
+  return finishedStats.get(id) ?? null;
+}
+
+/**
+ * Starts sampling memory and timing the phases of an image request. Sampling
+ * continues until the response body has been sent, after which the stats can
+ * be looked up by the `X-Request-Id` the response carries.
+ */
+export function startRequestMetrics() {
+  const id = randomUUID();
+  const start = performance.now();
+  const baseline = getMemorySnapshot();
+  const peak = { ...baseline };
+  const timings: Record<string, number> = {};
+  let done = false;
+
+  function sample() {
+    const current = getMemorySnapshot();
+    peak.rss = Math.max(peak.rss, current.rss);
+    peak.external = Math.max(peak.external, current.external);
+    peak.arrayBuffers = Math.max(peak.arrayBuffers, current.arrayBuffers);
+  }
+  // sharp works on libuv threads, so the event loop is free to sample
+  const interval = setInterval(sample, SAMPLE_INTERVAL_MS);
+  interval.unref();
+
+  function getStats(complete: boolean): RequestStats {
+    sample();
+    return {
+      id,
+      peakMemory: {
+        rss: peak.rss - baseline.rss,
+        external: peak.external - baseline.external,
+        arrayBuffers: peak.arrayBuffers - baseline.arrayBuffers,
+      },
+      timings: { ...timings, total: performance.now() - start },
+      complete,
+    };
+  }
+
+  function finish(complete: boolean) {
+    if (done) {
+      return;
+    }
+    done = true;
+    clearInterval(interval);
+    finishedStats.set(id, getStats(complete));
+    if (finishedStats.size > MAX_STORED_STATS) {
+      finishedStats.delete(finishedStats.keys().next().value!);
+    }
+  }
+
+  return {
+    /** Runs `fn` and adds its duration to the given phase. */
+    async time<T>(phase: string, fn: () => Promise<T>) {
+      const phaseStart = performance.now();
+      try {
+        return await fn();
+      } finally {
+        timings[phase] = (timings[phase] ?? 0) + performance.now() - phaseStart;
+        sample();
+      }
+    },
+
+    /** Stats up to now as Server-Timing and memory headers. */
+    getHeaders() {
+      const stats = getStats(false);
+      const { rss, external, arrayBuffers } = stats.peakMemory;
+      return {
+        "Server-Timing": Object.entries(stats.timings)
+          .map(([phase, duration]) => `${phase};dur=${duration.toFixed(1)}`)
+          .join(", "),
+        "X-Memory-Peak": `rss=${rss}, external=${external}, arrayBuffers=${arrayBuffers}`,
+        "X-Request-Id": id,
+      };
+    },
+
+    /**
+     * Stops sampling once the body has been sent. Bodies that aren't streamed
+     * are complete right away.
+     */
+    track<T extends Buffer | Readable | null>(body: T) {
+      if (body instanceof Readable) {
+        finished(body, (error) => finish(!error));
+      } else {
+        finish(true);
+      }
+      return body;
+    },
+
+    /** Stops sampling for responses without a body, e.g. errors. */
+    finish() {
+      finish(true);
+    },
+  };
+}
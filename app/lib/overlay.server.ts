@@ -0,0 +1,99 @@
+import sharp from "sharp";
+import { getSourceIdentity } from "./cache.server";
+import { overlayConfig } from "./config.server";
+import { readSource } from "./source.server";
+import type { ImageSource } from "./source.server";
+import type { TransformOptions } from "./transform";
+
+// Size texts are rendered at before they are scaled with `overlaySize`
+const TEXT_FONT_SIZE = 48;
+
+// Map iteration order doubles as LRU order, least recently used first
+const cache = new Map<string, Buffer>();
+const pending = new Map<string, Promise<Buffer>>();
+let cachedBytes = 0;
+
+function remember(key: string, data: Buffer) {
+  const previous = cache.get(key);
+  if (previous) {
+    cache.delete(key);
+    cachedBytes -= previous.length;
+  }
+  cache.set(key, data);
+  cachedBytes += data.length;
+  for (const [oldKey, oldData] of cache) {
+    if (cachedBytes <= overlayConfig.cacheMaxBytes) {
+      break;
+    }
+    cache.delete(oldKey);
+    cachedBytes -= oldData.length;
+  }
+}
+
+/**
+ * Reads an overlay source, from memory if it has been read before. Watermarks
+ * are the same few images on most requests, so they are kept in memory.
+ * Concurrent misses for the same source share a single read.
+ */
+async function readOverlaySource(source: ImageSource) {
+  const key = JSON.stringify(getSourceIdentity(source));
+  const cached = cache.get(key);
+  if (cached) {
+    cache.delete(key);
+    cache.set(key, cached);
+    return cached;
+  }
+
+  const inflight = pending.get(key);
+  if (inflight) {
+    return inflight;
+  }
+  const reading = readSource(source).then((data) => {
+    if (data.length <= overlayConfig.cacheMaxBytes) {
+      remember(key, data);
+    }
+    return data;
+  });
+  pending.set(key, reading);
+  reading.catch(() => {}).finally(() => pending.delete(key));
+  return reading;
+}
+
+function escapeXml(text: string) {
+  return text.replace(
+    /[<>&"']/g,
+    (char) => `&#${char.charCodeAt(0).toString(10)};`
+  );
+}
+
+/**
+ * Renders a text as SVG, trimmed to its bounds. The canvas is sized for the
+ * widest glyphs, so nothing is clipped.
+ */
+async function renderText(text: string, color: string) {
+  const size = TEXT_FONT_SIZE;
+  const width = Math.ceil(text.length * size * 1.2) + size;
+  const height = size * 2;
+  const font = `font-family="sans-serif" font-size="${size}"`;
+  const svg = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">`,
+    `<text x="${size / 2}" y="${size * 1.4}" ${font} fill="${color}">`,
+    escapeXml(text),
+    "</text></svg>",
+  ].join("");
+  return sharp(Buffer.from(svg)).trim().png().toBuffer();
+}
+
+/**
+ * The image composited over the output: the overlay source, read through the
+ * memory cache, or the rendered text. Null without an overlay.
+ */
+export async function loadOverlay(
+  options: TransformOptions,
+  source: ImageSource | null
+) {
+  if (options.text) {
+    return renderText(options.text, options.textColor ?? "#ffffff");
+  }
+  return source ? readOverlaySource(source) : null;
+}
@@ -0,0 +1,479 @@
+import sharp from "sharp";
+import { once } from "node:events";
+import { PassThrough } from "node:stream";
+import type { OutputInfo, OverlayOptions, SharpOptions } from "sharp";
+import { animationConfig, limitsConfig } from "./config.server";
+import { sniffImageType } from "./image-type";
+import { checkOutputSize } from "./limits.server";
+import { invariantResponse, limitResponse } from "./responses";
+import { encoderSupport, hasOverlay, outputFormats } from "./transform";
+import type { Position, TransformOptions } from "./transform";
+
+const sharpPositions: Record<Position, number> = {
+  center: sharp.gravity.center,
+  top: sharp.gravity.north,
+  right: sharp.gravity.east,
+  bottom: sharp.gravity.south,
+  left: sharp.gravity.west,
+  "top-left": sharp.gravity.northwest,
+  "top-right": sharp.gravity.northeast,
+  "bottom-left": sharp.gravity.southwest,
+  "bottom-right": sharp.gravity.southeast,
+  entropy: sharp.strategy.entropy,
+  attention: sharp.strategy.attention,
+};
+
+// Longest side of placeholders in pixels and the blur applied to them
+const PLACEHOLDER_SIZE = 16;
+const PLACEHOLDER_BLUR_SIGMA = 1;
+
+/**
+ * Placeholders keep the aspect ratio of the requested image: the requested
+ * box scaled down when both dimensions are given, the source's otherwise.
+ */
+function getPlaceholderSize(options: TransformOptions) {
+  if (options.width && options.height) {
+    const scale = PLACEHOLDER_SIZE / Math.max(options.width, options.height);
+    return {
+      width: Math.max(1, Math.round(options.width * scale)),
+      height: Math.max(1, Math.round(options.height * scale)),
+      fit: options.fit ?? undefined,
+    };
+  }
+  return {
+    width: PLACEHOLDER_SIZE,
+    height: PLACEHOLDER_SIZE,
+    fit: "inside" as const,
+  };
+}
+
+// Whether the output keeps all frames of an animated source
+function keepsAnimation(options: TransformOptions) {
+  return (
+    options.frame === null &&
+    !options.placeholder &&
+    !hasOverlay(options) &&
+    (!options.format || encoderSupport[options.format].animation)
+  );
+}
+
+/**
+ * Animated sources keep all frames unless a single frame is requested or the
+ * output format can't hold an animation, in which case the first is used.
+ * Placeholders and images with an overlay are always still images.
+ * For animations sharp's pixel limit covers all frames, as it loads them as
+ * one tall image, so the animation limit applies instead. The input pixel
+ * limit is checked per frame by `checkSource`.
+ */
+function getInputOptions(options: TransformOptions): SharpOptions {
+  if (!keepsAnimation(options)) {
+    return {
+      page: options.frame ?? 0,
+      limitInputPixels: limitsConfig.maxInputPixels,
+    };
+  }
+  return {
+    animated: true,
+    limitInputPixels: animationConfig.maxPixels,
+  };
+}
+
+const animatedFormats = outputFormats.filter(
+  (format) => encoderSupport[format].animation
+);
+
+/**
+ * Checks the options against the source's metadata before it is processed:
+ * the output size, the input pixels of a single frame, that an animation
+ * isn't converted to a format that can only hold one of its frames, and
+ * that a `delay` list has one entry per frame. `format=auto` can't be
+ * changed by the client, so it keeps the first frame instead.
+ */
+function checkSource(options: TransformOptions, metadata: sharp.Metadata) {
+  checkOutputSize(options, metadata);
+
+  const framePixels =
+    (metadata.width ?? 0) * (metadata.pageHeight ?? metadata.height ?? 0);
+  if (framePixels > limitsConfig.maxInputPixels) {
+    throw limitResponse("Image exceeds the pixel limit", 413, {
+      limit: "inputPixels",
+      max: limitsConfig.maxInputPixels,
+      value: framePixels,
+    });
+  }
+
+  const pages = metadata.pages ?? 1;
+  invariantResponse(
+    pages === 1 ||
+      keepsAnimation(options) ||
+      options.frame !== null ||
+      options.placeholder ||
+      hasOverlay(options) ||
+      options.autoFormat,
+    `${
+      options.format
+    } can't hold animations, select a frame or convert to ${animatedFormats.join(
+      " or "
+    )}`,
+    400
+  );
+  const frames = keepsAnimation(options) ? pages : 1;
+  invariantResponse(
+    !options.delay ||
+      options.delay.length === 1 ||
+      options.delay.length === frames,
+    `Delay must be a single value or one per frame, the image has ${frames}`,
+    400
+  );
+}
+
+/**
+ * Flip, flop and rotation as a single affine matrix, applied in that order.
+ * sharp allows one rotation per pipeline, which auto-orientation already
+ * takes, and applies its own flips before any rotation.
+ */
+function getAffineTransform(options: TransformOptions) {
+  const degrees = options.rotate ?? 0;
+  const radians = (degrees * Math.PI) / 180;
+  // Right angles use exact values, so pixels map one to one
+  const rightAngle = degrees % 90 === 0;
+  const cos = rightAngle ? Math.round(Math.cos(radians)) : Math.cos(radians);
+  const sin = rightAngle ? Math.round(Math.sin(radians)) : Math.sin(radians);
+  const x = options.flop ? -1 : 1;
+  const y = options.flip ? -1 : 1;
+  // Clockwise rotation matrix times the mirroring matrix
+  const matrix: [number, number, number, number] = [
+    cos * x,
+    -sin * y,
+    sin * x,
+    cos * y,
+  ];
+  return {
+    matrix,
+    interpolator: rightAngle
+      ? sharp.interpolators.nearest
+      : sharp.interpolators.bilinear,
+  };
+}
+
+/**
+ * Keeps the metadata the options ask for. sharp converts to sRGB and strips
+ * everything unless told otherwise.
+ */
+function applyMetadataOptions(
+  pipeline: sharp.Sharp,
+  options: TransformOptions
+) {
+  // Placeholders never carry metadata, it would outweigh the image.
+  if (!options.placeholder) {
+    if (options.icc === "keep") {
+      pipeline.keepIccProfile();
+    }
+    // GPS data and the tags `copyright` drops are removed by `filterExif`
+    if (options.metadata === "keep" || options.metadata === "copyright") {
+      pipeline.keepExif();
+    }
+  }
+}
+
+/**
+ * Encodes with the requested format and metadata. `format` replaces the
+ * requested one, for pipelines whose input isn't the source.
+ */
+function applyOutputOptions(
+  pipeline: sharp.Sharp,
+  options: TransformOptions,
+  format = options.format
+) {
+  // Apply format conversion with the encoder options if specified,
+  // options a format doesn't support are rejected by the schema
+  if (format) {
+    pipeline.toFormat(format, {
+      quality: options.quality ?? undefined,
+      effort: options.effort ?? undefined,
+      lossless: options.lossless ?? undefined,
+      nearLossless: options.nearLossless ?? undefined,
+      chromaSubsampling: options.chromaSubsampling ?? undefined,
+      progressive: options.progressive ?? undefined,
+      palette: options.palette ?? undefined,
+      colours: options.colors ?? undefined,
+      // Smaller JPEGs at the same quality, sharp's default is libjpeg-turbo
+      mozjpeg: format === "jpeg" || undefined,
+      loop: options.loop ?? undefined,
+      // A single delay applies to every frame
+      delay:
+        options.delay?.length === 1
+          ? options.delay[0]
+          : options.delay ?? undefined,
+    });
+  }
+  applyMetadataOptions(pipeline, options);
+}
+
+/**
+ * Builds the sharp pipeline for the given options. Pass a buffer to process
+ * it in memory, or nothing to get a duplex stream to pipe the source into.
+ * Operations are always applied in the same order, see `describeOperations`:
+ * frame selection, orientation, trim, crop, gamma and grayscale, resize (or
+ * shrinking and blurring for placeholders), crop after resize, flip, flop,
+ * rotation, the effects, then format and metadata.
+ * With an overlay, the output is a lossless PNG for `createOverlayPipeline`
+ * to composite onto and encode.
+ */
+export function createTransformPipeline(
+  options: TransformOptions,
+  input?: Buffer
+) {
+  const inputOptions = getInputOptions(options);
+  const pipeline = input ? sharp(input, inputOptions) : sharp(inputOptions);
+  pipeline.timeout({ seconds: limitsConfig.timeoutSeconds });
+
+  // Without arguments sharp rotates and flips by the EXIF orientation
+  if (options.autoOrient !== false) {
+    pipeline.rotate();
+  }
+
+  if (options.trim) {
+    pipeline.trim();
+  }
+  // sharp extracts before resizing when called before resize()
+  if (options.crop && !options.cropAfterResize) {
+    pipeline.extract(options.crop);
+  }
+
+  // Resize if width or height are provided, a missing one keeps the aspect ratio
+  if (options.placeholder) {
+    pipeline
+      .resize({
+        ...getPlaceholderSize(options),
+        position: options.position
+          ? sharpPositions[options.position]
+          : undefined,
+        background: options.background ?? undefined,
+      })
+      .blur(PLACEHOLDER_BLUR_SIGMA);
+  } else if (options.width || options.height) {
+    pipeline.resize({
+      width: options.width ?? undefined,
+      height: options.height ?? undefined,
+      fit: options.fit ?? undefined,
+      position: options.position ? sharpPositions[options.position] : undefined,
+      background: options.background ?? undefined,
+      withoutEnlargement: options.withoutEnlargement,
+    });
+  }
+
+  if (options.crop && options.cropAfterResize) {
+    pipeline.extract(options.crop);
+  }
+
+  if (options.flip || options.flop || options.rotate !== null) {
+    const { matrix, interpolator } = getAffineTransform(options);
+    pipeline.affine(matrix, {
+      interpolator,
+      background: options.background ?? "#00000000",
+      // Samples pixel centres, without this the result is shifted by one
+      idx: 0.5,
+      idy: 0.5,
+      odx: -0.5,
+      ody: -0.5,
+    });
+  }
+
+  // sharp runs the effects in its own fixed order, whatever the call order:
+  // gamma encoding and grayscale before resizing, then blur, modulate,
+  // sharpen, gamma decoding, normalize, tint and negate after everything else
+  if (options.gamma !== null) {
+    pipeline.gamma(options.gamma);
+  }
+  // Tinting keeps only the luminance, so it is grayscale already. sharp's
+  // grayscale would turn the tinted output back to black and white.
+  if (options.grayscale && !options.tint) {
+    pipeline.grayscale();
+  }
+  // Replaces the placeholder blur
+  if (options.blur !== null) {
+    pipeline.blur(options.blur);
+  }
+  if (options.modulate) {
+    pipeline.modulate(options.modulate);
+  }
+  if (options.sharpen !== null) {
+    pipeline.sharpen({ sigma: options.sharpen });
+  }
+  if (options.normalize) {
+    pipeline.normalize();
+  }
+  if (options.tint) {
+    pipeline.tint(options.tint);
+  }
+  if (options.negate) {
+    pipeline.negate({ alpha: false });
+  }
+
+  if (hasOverlay(options)) {
+    // Fast to write and read, the metadata is kept for the second pipeline
+    pipeline.png({ compressionLevel: 0 });
+    applyMetadataOptions(pipeline, options);
+  } else {
+    applyOutputOptions(pipeline, options);
+  }
+
+  return pipeline;
+}
+
+/**
+ * Scales the overlay to `overlaySize` of the image's width, or keeps its size,
+ * in both cases shrinking it to fit into the image. The opacity is applied to
+ * its alpha channel and the offset added as a transparent margin on the edges
+ * the gravity points to.
+ */
+async function createLayer(
+  options: TransformOptions,
+  overlay: Buffer,
+  image: { width: number; height: number }
+): Promise<OverlayOptions> {
+  const gravity = options.overlayGravity ?? "bottom-right";
+  const offset = options.overlayOffset ?? { x: 0, y: 0 };
+  const margin = {
+    top: gravity.includes("top") ? offset.y : 0,
+    bottom: gravity.includes("bottom") ? offset.y : 0,
+    left: gravity.includes("left") ? offset.x : 0,
+    right: gravity.includes("right") ? offset.x : 0,
+  };
+  const maxWidth = Math.max(1, image.width - margin.left - margin.right);
+  const maxHeight = Math.max(1, image.height - margin.top - margin.bottom);
+  const width = options.overlaySize
+    ? Math.max(1, Math.round(image.width * options.overlaySize))
+    : maxWidth;
+
+  const layer = sharp(overlay, {
+    limitInputPixels: limitsConfig.maxInputPixels,
+  })
+    .resize({
+      width: Math.min(width, maxWidth),
+      height: maxHeight,
+      fit: "inside",
+      withoutEnlargement: !options.overlaySize,
+    })
+    .ensureAlpha()
+    .extend({ ...margin, background: "#00000000" });
+  if (options.overlayOpacity !== null) {
+    // Scales the alpha channel by the opacity of a single tiled pixel
+    const alpha = Math.round(options.overlayOpacity * 255);
+    layer.composite([
+      {
+        input: Buffer.from([0, 0, 0, alpha]),
+        raw: { width: 1, height: 1, channels: 4 },
+        tile: true,
+        blend: "dest-in",
+      },
+    ]);
+  }
+
+  return {
+    input: await layer.png().toBuffer(),
+    gravity: sharpPositions[gravity],
+    tile: options.overlayTile,
+  };
+}
+
+/**
+ * Composites the overlay onto the output of `createTransformPipeline` and
+ * encodes it. The overlay is sized relative to the image, which is only
+ * known after the transforms, so this takes a second pipeline. Pass the
+ * image to process it in memory, or pipe it into the returned pipeline.
+ * Without a format, the format of the source (`sourceType`) is kept.
+ */
+async function createOverlayPipeline(
+  options: TransformOptions,
+  overlay: Buffer,
+  image: { width: number; height: number },
+  sourceType: string | null,
+  input?: Buffer
+) {
+  const layer = await createLayer(options, overlay, image);
+  const pipeline = input ? sharp(input) : sharp();
+  pipeline.timeout({ seconds: limitsConfig.timeoutSeconds }).composite([layer]);
+  applyOutputOptions(
+    pipeline,
+    options,
+    options.format ??
+      outputFormats.find((format) => sourceType === `image/${format}`) ??
+      "png"
+  );
+  return pipeline;
+}
+
+/**
+ * Runs `createTransformPipeline` on a buffer, followed by the overlay
+ * pipeline when there is an overlay to composite. Throws a Response when
+ * `checkSource` rejects the options for the source.
+ */
+export async function transformBuffer(
+  options: TransformOptions,
+  input: Buffer,
+  overlay: Buffer | null
+) {
+  checkSource(options, await sharp(input).metadata());
+  const output = await createTransformPipeline(options, input).toBuffer({
+    resolveWithObject: true,
+  });
+  if (!overlay) {
+    return output;
+  }
+  const pipeline = await createOverlayPipeline(
+    options,
+    overlay,
+    output.info,
+    sniffImageType(input),
+    output.data
+  );
+  return pipeline.toBuffer({ resolveWithObject: true });
+}
+
+/**
+ * `checkSource` for a streaming `createTransformPipeline`. sharp buffers
+ * streamed input before processing it anyway, so its metadata is read once
+ * the source has been piped in completely. Source errors reject.
+ */
+export async function checkPipelineSource(
+  pipeline: sharp.Sharp,
+  options: TransformOptions
+) {
+  const failed = once(pipeline, "error").then(([error]) => {
+    throw error;
+  });
+  checkSource(options, await Promise.race([pipeline.metadata(), failed]));
+}
+
+/**
+ * Pipes a streaming `createTransformPipeline` into the overlay pipeline once
+ * the size of its output is known, and returns the overlay pipeline.
+ */
+export async function pipeOverlay(
+  pipeline: sharp.Sharp,
+  options: TransformOptions,
+  overlay: Buffer,
+  sourceType: string | null
+) {
+  // sharp only starts processing once its output is read, so it is held
+  // in a PassThrough until the overlay pipeline is ready
+  const output = pipeline.pipe(new PassThrough());
+  const [info]: OutputInfo[] = await once(pipeline, "info");
+  const overlayPipeline = await createOverlayPipeline(
+    options,
+    overlay,
+    info,
+    sourceType
+  );
+  return output.pipe(overlayPipeline);
+}
+
+/**
+ * Number of frames in sharp's output info. sharp adds `pages` for animated
+ * output, but its type definitions don't declare it.
+ */
+export function getFrameCount(info: OutputInfo) {
+  return (info as OutputInfo & { pages?: number }).pages ?? 1;
+}
@@ -0,0 +1,120 @@
+import { buffer } from "node:stream/consumers";
+import sharp from "sharp";
+import { decode, encode } from "blurhash";
+import { rgbaToThumbHash, thumbHashToDataURL } from "thumbhash";
+import { z } from "zod";
+import type { Variant } from "./cache.server";
+import { limitsConfig } from "./config.server";
+import { invariantResponse } from "./responses";
+import { transformQuerySchema } from "./transform";
+
+/**
+ * The encoded placeholder of `placeholder=json` requests as a data URI that
+ * can be inlined into HTML or CSS.
+ */
+export async function getPlaceholderJson(variant: Variant) {
+  const data = Buffer.isBuffer(variant.body)
+    ? variant.body
+    : await buffer(variant.body);
+  const { width, height } = await sharp(data).metadata();
+  return {
+    dataUri: `data:${variant.contentType};base64,${data.toString("base64")}`,
+    width,
+    height,
+    size: data.length,
+  };
+}
+
+export const hashAlgorithms = ["thumbhash", "blurhash"] as const;
+export type HashAlgorithm = (typeof hashAlgorithms)[number];
+
+const hashQuerySchema = z.object({
+  src: transformQuerySchema.shape.src,
+  algorithm: z
+    .enum(hashAlgorithms, {
+      errorMap: () => ({
+        message: `Algorithm must be one of: ${hashAlgorithms.join(", ")}`,
+      }),
+    })
+    .default("thumbhash"),
+});
+
+export function parseHashQuery(searchParams: URLSearchParams) {
+  const result = hashQuerySchema.safeParse(Object.fromEntries(searchParams));
+  invariantResponse(
+    result.success,
+    result.success ? "" : result.error.issues[0].message,
+    400
+  );
+  return result.data;
+}
+
+// ThumbHash accepts up to 100×100 pixels, BlurHash only needs a few
+const hashSizes: Record<HashAlgorithm, number> = {
+  thumbhash: 100,
+  blurhash: 32,
+};
+
+// Components of the BlurHash along the longer and the shorter side
+const BLURHASH_COMPONENTS = [4, 3];
+
+async function toPng(
+  rgba: Uint8Array | Uint8ClampedArray,
+  width: number,
+  height: number
+) {
+  const png = await sharp(rgba, { raw: { width, height, channels: 4 } })
+    .png()
+    .toBuffer();
+  return `data:image/png;base64,${png.toString("base64")}`;
+}
+
+/**
+ * Encodes a compact placeholder hash of the source's first frame, along with
+ * a data URI of the hash decoded again to preview it.
+ */
+export async function getPlaceholderHash(
+  source: Buffer,
+  algorithm: HashAlgorithm
+) {
+  const size = hashSizes[algorithm];
+  const { data, info } = await sharp(source, {
+    limitInputPixels: limitsConfig.maxInputPixels,
+  })
+    .timeout({ seconds: limitsConfig.timeoutSeconds })
+    .rotate()
+    .resize(size, size, { fit: "inside" })
+    .ensureAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  if (algorithm === "thumbhash") {
+    const hash = rgbaToThumbHash(info.width, info.height, data);
+    return {
+      algorithm,
+      hash: Buffer.from(hash).toString("base64"),
+      size: hash.length,
+      dataUri: thumbHashToDataURL(hash),
+    };
+  }
+
+  const [long, short] = BLURHASH_COMPONENTS;
+  const landscape = info.width >= info.height;
+  const hash = encode(
+    new Uint8ClampedArray(data),
+    info.width,
+    info.height,
+    landscape ? long : short,
+    landscape ? short : long
+  );
+  return {
+    algorithm,
+    hash,
+    size: hash.length,
+    dataUri: await toPng(
+      decode(hash, info.width, info.height),
+      info.width,
+      info.height
+    ),
+  };
+}
@@ -0,0 +1,49 @@
+import { availableFormats } from "./capabilities.server";
+import { signingConfig } from "./config.server";
+import { checkOutputSize, checkPresetsOnly } from "./limits.server";
+import { parseHashQuery } from "./placeholder.server";
+import { isSigningEnabled, signImageUrl } from "./signing.server";
+import { parseTransformOptions } from "./transform";
+
+/**
+ * Whether an image URL is one the image endpoints would accept: valid
+ * params within the size limits, and only a preset while IMG_PRESETS_ONLY
+ * is set.
+ */
+function isAllowedImageUrl(url: string) {
+  try {
+    const { pathname, searchParams } = new URL(url, "http://localhost");
+    if (pathname === "/img-hash") {
+      parseHashQuery(searchParams);
+      return true;
+    }
+    if (pathname !== "/img" && pathname !== "/img-stream") {
+      return false;
+    }
+    checkPresetsOnly(searchParams);
+    checkOutputSize(
+      parseTransformOptions(searchParams, null, availableFormats)
+    );
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Signs the image URLs posted in the `url` fields of a playground form, for
+ * the route actions of the playground pages. Anyone who can reach them can
+ * post, so URLs are only signed with IMG_SIGN_PLAYGROUND set and when they
+ * are within the configured limits. Others are returned unsigned and answer
+ * `403` when loaded.
+ */
+export async function signPlaygroundUrls(request: Request) {
+  const formData = await request.formData();
+  const urls = formData.getAll("url").map(String);
+  if (!isSigningEnabled() || !signingConfig.playground) {
+    return { urls };
+  }
+  return {
+    urls: urls.map((url) => (isAllowedImageUrl(url) ? signImageUrl(url) : url)),
+  };
+}
@@ -0,0 +1,18 @@
+// Mirrors the Accept header browsers send for <img> requests
+export const imageAcceptHeader =
+  "image/avif,image/webp,image/apng,image/svg+xml,image/*,*/*;q=0.8";
+
+export function formatSize(sizeInBytes: number | null) {
+  if (sizeInBytes === null) {
+    return "–";
+  }
+  if (sizeInBytes < 1000 * 1000) {
+    return `${(sizeInBytes / 1000).toFixed(2)} KB`;
+  }
+  return `${(sizeInBytes / (1000 * 1000)).toFixed(2)} MB`;
+}
+
+// Request header that makes the image endpoints skip the variant cache and
+// encode again, so the playground measures a fresh encode on every load.
+// `Cache-Control: no-cache` doesn't, browsers send it on every hard reload.
+export const REFRESH_HEADER = "X-Image-Refresh";
@@ -0,0 +1,43 @@
+import type { TransformQuery } from "./transform";
+
+// Params a preset sets, typed like the ones passed to `getImgSrc`
+export type PresetParams = Partial<Omit<TransformQuery, "src" | "preset">>;
+
+export interface Preset {
+  description: string;
+  params: PresetParams;
+}
+
+/**
+ * Named sets of transform params, requested as `preset=<name>`. Explicit
+ * params override the preset's, unless IMG_PRESETS_ONLY allows presets only.
+ */
+export const presets = {
+  "card-thumb": {
+    description: "16:9 card thumbnail",
+    params: { w: 640, h: 360, format: "avif" },
+  },
+  avatar: {
+    description: "Square avatar cropped around the most interesting region",
+    params: { w: 128, h: 128, position: "attention", format: "webp" },
+  },
+  hero: {
+    description: "Full-width hero image in the best format the client accepts",
+    params: { w: 1920, withoutEnlargement: true, format: "auto", q: 75 },
+  },
+  "og-image": {
+    description: "Open Graph image for link previews",
+    params: { w: 1200, h: 630, format: "jpeg", q: 80 },
+  },
+  lqip: {
+    description: "Blurred placeholder as a data URI",
+    params: { w: 640, h: 360, placeholder: "json" },
+  },
+} satisfies Record<string, Preset>;
+
+export type PresetName = keyof typeof presets;
+
+export const presetNames = Object.keys(presets) as [
+  PresetName,
+  ...PresetName[]
+];
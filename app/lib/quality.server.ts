@@ -0,0 +1,161 @@
+import sharp from "sharp";
+import { createTransformPipeline, transformBuffer } from "./pipeline.server";
+import { noEncoderOptions } from "./transform";
+import type { TransformOptions } from "./transform";
+
+export interface QualityScores {
+  // Mean structural similarity of the luma channel, 1 for identical images
+  ssim: number;
+  // Peak signal-to-noise ratio of the RGB channels in dB, null for identical images
+  psnr: number | null;
+}
+
+interface RawImage {
+  data: Buffer;
+  width: number;
+  height: number;
+}
+
+// Longest side images are scored at, larger ones are scaled down first so
+// the luma arrays and the blocking loops over them stay small
+const SCORE_MAX_SIZE = 1024;
+
+const SSIM_WINDOW = 8;
+const SSIM_STEP = 4;
+const SSIM_C1 = (0.01 * 255) ** 2;
+const SSIM_C2 = (0.03 * 255) ** 2;
+
+// Both sides are compared as opaque sRGB, transparency is flattened onto white
+async function toRgb(image: sharp.Sharp): Promise<RawImage> {
+  const { data, info } = await image
+    .flatten({ background: "#ffffff" })
+    .toColourspace("srgb")
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  return { data, width: info.width, height: info.height };
+}
+
+// The variant is resized to the reference's size with the same `fill`, so
+// identical images still score as identical
+async function downscale(image: RawImage) {
+  const { data, width, height } = image;
+  const scale = SCORE_MAX_SIZE / Math.max(width, height);
+  if (scale >= 1) {
+    return image;
+  }
+  return toRgb(
+    sharp(data, { raw: { width, height, channels: 3 } }).resize(
+      Math.max(1, Math.round(width * scale)),
+      Math.max(1, Math.round(height * scale)),
+      { fit: "fill" }
+    )
+  );
+}
+
+function toLuma({ data, width, height }: RawImage) {
+  const luma = new Float32Array(width * height);
+  for (let i = 0; i < luma.length; i++) {
+    luma[i] =
+      0.299 * data[i * 3] + 0.587 * data[i * 3 + 1] + 0.114 * data[i * 3 + 2];
+  }
+  return luma;
+}
+
+function psnr(reference: RawImage, variant: RawImage) {
+  let squaredError = 0;
+  for (let i = 0; i < reference.data.length; i++) {
+    squaredError += (reference.data[i] - variant.data[i]) ** 2;
+  }
+  const mse = squaredError / reference.data.length;
+  return mse === 0 ? null : 10 * Math.log10((255 * 255) / mse);
+}
+
+// SSIM averaged over overlapping square windows with uniform weights
+function ssim(reference: RawImage, variant: RawImage) {
+  const { width, height } = reference;
+  const a = toLuma(reference);
+  const b = toLuma(variant);
+  const size = Math.min(SSIM_WINDOW, width, height);
+  const count = size * size;
+
+  let total = 0;
+  let windows = 0;
+  for (let top = 0; top + size <= height; top += SSIM_STEP) {
+    for (let left = 0; left + size <= width; left += SSIM_STEP) {
+      let sumA = 0;
+      let sumB = 0;
+      let sumAA = 0;
+      let sumBB = 0;
+      let sumAB = 0;
+      for (let y = top; y < top + size; y++) {
+        for (let x = left; x < left + size; x++) {
+          const valueA = a[y * width + x];
+          const valueB = b[y * width + x];
+          sumA += valueA;
+          sumB += valueB;
+          sumAA += valueA * valueA;
+          sumBB += valueB * valueB;
+          sumAB += valueA * valueB;
+        }
+      }
+      const meanA = sumA / count;
+      const meanB = sumB / count;
+      const varianceA = sumAA / count - meanA * meanA;
+      const varianceB = sumBB / count - meanB * meanB;
+      const covariance = sumAB / count - meanA * meanB;
+      total +=
+        ((2 * meanA * meanB + SSIM_C1) * (2 * covariance + SSIM_C2)) /
+        ((meanA * meanA + meanB * meanB + SSIM_C1) *
+          (varianceA + varianceB + SSIM_C2));
+      windows++;
+    }
+  }
+  return total / windows;
+}
+
+// The first (or requested) frame with the overlay, as a lossless PNG
+async function renderReference(
+  options: TransformOptions,
+  source: Buffer,
+  overlay: Buffer
+) {
+  const { data } = await transformBuffer(
+    {
+      ...options,
+      ...noEncoderOptions,
+      format: "png",
+      frame: options.frame ?? 0,
+    },
+    source,
+    overlay
+  );
+  return data;
+}
+
+/**
+ * Scores an encoded variant against its source. The reference applies the
+ * same transforms to the source without encoding it, so the scores measure
+ * what the output format and its options lose. Animations are compared by
+ * their first (or requested) frame. With an overlay the reference is a
+ * lossless PNG, since the overlay is composited in a second pipeline.
+ * Both are compared at up to `SCORE_MAX_SIZE` pixels on their longest side.
+ */
+export async function scoreVariant(
+  source: Buffer,
+  variant: Buffer,
+  options: TransformOptions,
+  overlay: Buffer | null
+): Promise<QualityScores> {
+  const frame = options.frame ?? 0;
+  const reference = await downscale(
+    await toRgb(
+      overlay
+        ? sharp(await renderReference(options, source, overlay))
+        : createTransformPipeline({ ...options, format: null, frame }, source)
+    )
+  );
+  const encoded = await toRgb(
+    sharp(variant).resize(reference.width, reference.height, { fit: "fill" })
+  );
+  return { ssim: ssim(reference, encoded), psnr: psnr(reference, encoded) };
+}
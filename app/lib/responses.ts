@@ -0,0 +1,97 @@
+export function invariantResponse(
+  condition: unknown,
+  message: string,
+  status: number
+): asserts condition {
+  if (!condition) {
+    throw new Response(message, { status, statusText: message });
+  }
+}
+
+/**
+ * Headers for sources sent without transforms. An SVG source is served as
+ * it is on this origin, the sandbox keeps its scripts from running when the
+ * URL is opened directly.
+ */
+export const passthroughHeaders = {
+  "Content-Security-Policy":
+    "default-src 'none'; style-src 'unsafe-inline'; sandbox",
+  "X-Content-Type-Options": "nosniff",
+};
+
+/**
+ * Carries a Response through code that only passes on Errors, like a
+ * stream failing with it. `errorResponse` unwraps it.
+ */
+export class ResponseError extends Error {
+  constructor(readonly response: Response) {
+    super(response.statusText);
+  }
+}
+
+type LimitDetails = {
+  // Name of the limit that was hit, e.g. `width` or `inputPixels`
+  limit: string;
+  max?: number;
+  value?: number;
+};
+
+/**
+ * Creates a JSON error Response for a request that exceeds one of the
+ * server's limits, so clients can tell which limit was hit.
+ */
+export function limitResponse(
+  message: string,
+  status: number,
+  details: LimitDetails,
+  headers?: HeadersInit
+) {
+  return Response.json(
+    { error: message, ...details },
+    { status, statusText: message, headers }
+  );
+}
+
+/**
+ * Turns an error thrown while handling an image request into a Response.
+ * Thrown Responses are returned as they are, known sharp input errors
+ * become client errors and everything else a 500.
+ */
+export function errorResponse(error: unknown) {
+  if (error instanceof Response) {
+    return error;
+  }
+  if (error instanceof ResponseError) {
+    return error.response;
+  }
+
+  const sharpMessage = error instanceof Error ? error.message : "";
+  if (sharpMessage.includes("exceeds pixel limit")) {
+    return limitResponse("Image exceeds the pixel limit", 413, {
+      limit: "inputPixels",
+    });
+  }
+  if (sharpMessage.startsWith("timeout:")) {
+    return limitResponse("Image processing timed out", 422, {
+      limit: "timeout",
+    });
+  }
+  if (sharpMessage.includes("not supported for multi-page images")) {
+    // Flips and rotations are applied as one affine transform
+    const operation = sharpMessage.startsWith("Affine")
+      ? "Flip, flop and rotate are"
+      : `${sharpMessage.split(" ")[0]} is`;
+    const message = `${operation} not supported for animated images, select a frame`;
+    return new Response(message, { status: 400, statusText: message });
+  }
+  if (sharpMessage.includes("bad extract area")) {
+    const message = "Crop area must lie within the image";
+    return new Response(message, { status: 400, statusText: message });
+  }
+  if (sharpMessage.includes("bad page number")) {
+    const message = "Frame does not exist in the source image";
+    return new Response(message, { status: 400, statusText: message });
+  }
+
+  return new Response(`Error processing image: ${error}`, { status: 500 });
+}
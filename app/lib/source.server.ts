@@ -0,0 +1,345 @@
+import path from "node:path";
+import { PassThrough, Readable, Transform } from "node:stream";
+import { createReadStream } from "node:fs";
+import { open, readdir, readFile, realpath, stat } from "node:fs/promises";
+import { remoteSourceConfig, uploadConfig } from "./config.server";
+import { SNIFF_LENGTH, sniffImageType } from "./image-type";
+import { invariantResponse, ResponseError } from "./responses";
+import {
+  getUploadExpiry,
+  getUploadName,
+  isUploadSource,
+  listUploads,
+} from "./uploads.server";
+
+export type ImageSource =
+  | {
+      type: "local";
+      src: string;
+      path: string;
+      size: number;
+      mtime: Date;
+      contentType: string;
+    }
+  | {
+      type: "remote";
+      src: string;
+      url: URL;
+    };
+
+const publicRoot = path.join(process.cwd(), "public");
+
+export function isRemoteSource(src: string) {
+  return /^https?:\/\//i.test(src);
+}
+
+function isAllowedHost(hostname: string) {
+  return remoteSourceConfig.allowedHosts.some((allowed) =>
+    allowed.startsWith("*.")
+      ? hostname.endsWith(allowed.slice(1))
+      : hostname === allowed
+  );
+}
+
+function notFound(src: string) {
+  const message = `Image file not found: ${src}`;
+  return new Response(message, { status: 404, statusText: message });
+}
+
+function isInside(root: string, target: string) {
+  const relative = path.relative(root, target);
+  return (
+    relative !== "" && !relative.startsWith("..") && !path.isAbsolute(relative)
+  );
+}
+
+async function resolveLocal(
+  src: string,
+  rootDir: string,
+  filePath: string
+): Promise<ImageSource> {
+  invariantResponse(!src.includes("\0"), "Invalid source path", 400);
+
+  const root = await realpath(rootDir).catch(() => {
+    throw notFound(src);
+  });
+  const fsPath = path.join(root, filePath);
+  invariantResponse(isInside(root, fsPath), "Source path not allowed", 403);
+
+  // Resolve symlinks so a link inside public/ can't point outside of it
+  let realPath;
+  try {
+    realPath = await realpath(fsPath);
+  } catch (error) {
+    throw notFound(src);
+  }
+  invariantResponse(isInside(root, realPath), "Source path not allowed", 403);
+
+  const file = await open(realPath, "r").catch(() => {
+    throw notFound(src);
+  });
+  try {
+    const stats = await file.stat();
+    if (!stats.isFile()) {
+      throw notFound(src);
+    }
+
+    const { buffer, bytesRead } = await file.read({
+      buffer: Buffer.alloc(SNIFF_LENGTH),
+      position: 0,
+    });
+    const contentType = sniffImageType(buffer.subarray(0, bytesRead));
+    invariantResponse(contentType, `Source is not an image: ${src}`, 415);
+
+    return {
+      type: "local",
+      src,
+      path: realPath,
+      size: stats.size,
+      mtime: stats.mtime,
+      contentType,
+    };
+  } finally {
+    await file.close();
+  }
+}
+
+// Expired uploads are treated as deleted until the next listing removes them
+async function resolveUpload(src: string) {
+  const name = getUploadName(src);
+  if (!name) {
+    throw notFound(src);
+  }
+  const source = await resolveLocal(src, uploadConfig.dir, name);
+  if (
+    source.type === "local" &&
+    getUploadExpiry(source.mtime).getTime() <= Date.now()
+  ) {
+    throw notFound(src);
+  }
+  return source;
+}
+
+function resolveRemote(src: string): ImageSource {
+  let url;
+  try {
+    url = new URL(src);
+  } catch {
+    throw new Response("Invalid source URL", { status: 400 });
+  }
+  invariantResponse(
+    isAllowedHost(url.hostname.toLowerCase()),
+    `Remote host not allowed: ${url.hostname}`,
+    403
+  );
+  return { type: "remote", src, url };
+}
+
+/**
+ * Resolves `src` to a readable image source: either a file confined to the
+ * public directory (after following symlinks) whose magic bytes identify it
+ * as an image, an upload that hasn't expired (`/uploads/<name>`), or an
+ * http(s) URL on an allowed host.
+ * Throws 400, 403, 404 or 415 Responses for sources that may not be read.
+ */
+export async function resolveSource(src: string) {
+  if (isRemoteSource(src)) {
+    return resolveRemote(src);
+  }
+  if (isUploadSource(src)) {
+    return resolveUpload(src);
+  }
+  return resolveLocal(src, publicRoot, src);
+}
+
+/**
+ * Images in the public directory (by extension, not nested) and uploads that
+ * can be used as `src`. `expiresAt` is null for public images.
+ */
+export async function listSources() {
+  const names = await readdir(publicRoot).catch(() => [] as string[]);
+  const publicImages = [];
+  for (const name of names) {
+    if (!/\.(png|jpe?g|gif|webp|avif|tiff?|jxl|svg)$/i.test(name)) {
+      continue;
+    }
+    const stats = await stat(path.join(publicRoot, name));
+    if (stats.isFile()) {
+      publicImages.push({ src: `/${name}`, size: stats.size, expiresAt: null });
+    }
+  }
+  return [...publicImages, ...(await listUploads())];
+}
+
+function remoteTooLarge() {
+  const message = `Remote image exceeds ${remoteSourceConfig.maxBytes} bytes`;
+  return new Response(message, { status: 413, statusText: message });
+}
+
+function notAnImage(source: ImageSource) {
+  const message = `Remote source is not an image: ${source.src}`;
+  return new Response(message, { status: 415, statusText: message });
+}
+
+async function fetchRemote(source: Extract<ImageSource, { type: "remote" }>) {
+  let response;
+  try {
+    response = await fetch(source.url, {
+      // Redirects could point outside of the allowlist
+      redirect: "manual",
+      signal: AbortSignal.timeout(remoteSourceConfig.timeoutMs),
+    });
+  } catch (error) {
+    if (error instanceof DOMException && error.name === "TimeoutError") {
+      throw new Response("Remote image timed out", { status: 504 });
+    }
+    throw new Response(`Remote image could not be fetched: ${error}`, {
+      status: 502,
+    });
+  }
+
+  if (response.status === 404) {
+    throw notFound(source.src);
+  }
+  invariantResponse(
+    response.ok && response.body,
+    `Remote image responded with status ${response.status}`,
+    502
+  );
+
+  const contentType = response.headers.get("Content-Type") ?? "";
+  invariantResponse(
+    contentType.startsWith("image/"),
+    `Remote source is not an image: ${contentType || "unknown type"}`,
+    415
+  );
+
+  const contentLength = Number(response.headers.get("Content-Length"));
+  invariantResponse(
+    !contentLength || contentLength <= remoteSourceConfig.maxBytes,
+    `Remote image exceeds ${remoteSourceConfig.maxBytes} bytes`,
+    413
+  );
+
+  return response.body;
+}
+
+/**
+ * Counts bytes passing through and errors once the remote size cap is
+ * exceeded, for servers that send no or a wrong Content-Length.
+ */
+function limitRemoteBytes() {
+  let received = 0;
+  return new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      received += chunk.length;
+      if (received > remoteSourceConfig.maxBytes) {
+        callback(new ResponseError(remoteTooLarge()));
+        return;
+      }
+      callback(null, chunk);
+    },
+  });
+}
+
+/**
+ * Reads the whole source image into memory. Throws a 413 Response for
+ * remote images over the size cap, 415 for remote bodies that aren't images.
+ */
+export async function readSource(source: ImageSource) {
+  if (source.type === "local") {
+    return readFile(source.path);
+  }
+
+  const reader = (await fetchRemote(source)).getReader();
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    received += value.length;
+    if (received > remoteSourceConfig.maxBytes) {
+      await reader.cancel();
+      throw remoteTooLarge();
+    }
+    chunks.push(value);
+  }
+  // The Content-Type header alone doesn't make it an image
+  const data = Buffer.concat(chunks);
+  if (!sniffImageType(data)) {
+    throw notAnImage(source);
+  }
+  return data;
+}
+
+/**
+ * Opens the source image as a stream. Remote bodies are piped through
+ * without buffering once their first bytes identify them as an image, and
+ * fail with a `ResponseError` once they exceed the size cap.
+ */
+export async function streamSource(source: ImageSource): Promise<Readable> {
+  if (source.type === "local") {
+    return createReadStream(source.path);
+  }
+
+  const body = await fetchRemote(source);
+  const limiter = limitRemoteBytes();
+  const stream = Readable.fromWeb(body as any);
+  stream.on("error", (error) => limiter.destroy(error));
+  const { stream: output, contentType } = await peekImageType(
+    stream.pipe(limiter)
+  );
+  if (!contentType) {
+    stream.destroy();
+    throw notAnImage(source);
+  }
+  return output;
+}
+
+function readFirstChunk(stream: Readable) {
+  return new Promise<Buffer | null>((resolve, reject) => {
+    const cleanup = () => {
+      stream.off("readable", onReadable);
+      stream.off("end", onEnd);
+      stream.off("error", onError);
+    };
+    const onReadable = () => {
+      const chunk = stream.read();
+      if (chunk !== null) {
+        cleanup();
+        resolve(chunk);
+      }
+    };
+    const onEnd = () => {
+      cleanup();
+      resolve(null);
+    };
+    const onError = (error: Error) => {
+      cleanup();
+      reject(error);
+    };
+    stream.on("readable", onReadable);
+    stream.on("end", onEnd);
+    stream.on("error", onError);
+  });
+}
+
+/**
+ * Detects the image type of a stream from the magic bytes of its first
+ * chunk. The returned stream replays that chunk followed by the rest.
+ */
+export async function peekImageType(stream: Readable) {
+  const chunk = await readFirstChunk(stream);
+  const output = new PassThrough();
+  if (chunk !== null) {
+    output.write(chunk);
+  }
+  stream.on("error", (error) => output.destroy(error));
+  stream.pipe(output);
+  return {
+    stream: output,
+    contentType: chunk && sniffImageType(chunk),
+  };
+}
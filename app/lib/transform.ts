@@ -0,0 +1,911 @@
+import { z } from "zod";
+import { presetNames, presets } from "./presets";
+import type { PresetName, PresetParams } from "./presets";
+import { invariantResponse } from "./responses";
+
+export const outputFormats = [
+  "webp",
+  "avif",
+  "jpeg",
+  "png",
+  "gif",
+  "tiff",
+  "jxl",
+] as const;
+export type OutputFormat = (typeof outputFormats)[number];
+
+const formatParams = [...outputFormats, "auto"] as const;
+
+export const fits = ["cover", "contain", "fill", "inside", "outside"] as const;
+export type Fit = (typeof fits)[number];
+
+export const gravities = [
+  "center",
+  "top",
+  "right",
+  "bottom",
+  "left",
+  "top-left",
+  "top-right",
+  "bottom-left",
+  "bottom-right",
+] as const;
+export type Gravity = (typeof gravities)[number];
+
+// Gravities plus the smart crop strategies, which only apply to `fit=cover`
+export const positions = [...gravities, "entropy", "attention"] as const;
+export type Position = (typeof positions)[number];
+
+export const chromaSubsamplings = ["4:2:0", "4:4:4"] as const;
+export type ChromaSubsampling = (typeof chromaSubsamplings)[number];
+
+// `image` responds with a tiny blurred image, `json` with it as a data URI
+export const placeholders = ["image", "json"] as const;
+export type Placeholder = (typeof placeholders)[number];
+
+// Metadata carried over from the source: none, EXIF without GPS data, or
+// only the EXIF Artist and Copyright tags
+export const metadataModes = ["strip", "keep", "copyright"] as const;
+export type MetadataMode = (typeof metadataModes)[number];
+
+// `srgb` converts to sRGB and drops the profile, `keep` embeds the source's
+// profile and keeps its colour space
+export const iccModes = ["srgb", "keep"] as const;
+export type IccMode = (typeof iccModes)[number];
+
+// Output format of placeholders that don't ask for one
+const placeholderFormat: OutputFormat = "webp";
+
+export interface EncoderSupport {
+  quality: boolean;
+  // Inclusive effort range, or null if the encoder has no effort setting
+  effort: [number, number] | null;
+  lossless: boolean;
+  nearLossless: boolean;
+  chromaSubsampling: boolean;
+  // Progressive (JPEG) or interlaced (PNG, GIF) encoding
+  progressive: boolean;
+  // Palette-based quantization (PNG) and its maximum number of colours
+  palette: boolean;
+  colors: boolean;
+  // Animated output, configured with `loop` and `delay`
+  animation: boolean;
+}
+
+const noEncoderSupport: EncoderSupport = {
+  quality: false,
+  effort: null,
+  lossless: false,
+  nearLossless: false,
+  chromaSubsampling: false,
+  progressive: false,
+  palette: false,
+  colors: false,
+  animation: false,
+};
+
+// Encoder options each output format accepts, see sharp's output docs
+export const encoderSupport: Record<OutputFormat, EncoderSupport> = {
+  webp: {
+    ...noEncoderSupport,
+    quality: true,
+    effort: [0, 6],
+    lossless: true,
+    nearLossless: true,
+    animation: true,
+  },
+  // libvips encodes AVIF as still images only
+  avif: {
+    ...noEncoderSupport,
+    quality: true,
+    effort: [0, 9],
+    lossless: true,
+    chromaSubsampling: true,
+  },
+  jpeg: {
+    ...noEncoderSupport,
+    quality: true,
+    chromaSubsampling: true,
+    progressive: true,
+  },
+  png: {
+    ...noEncoderSupport,
+    // Quality only applies to palette output and implies it
+    quality: true,
+    effort: [1, 10],
+    progressive: true,
+    palette: true,
+    colors: true,
+  },
+  gif: {
+    ...noEncoderSupport,
+    effort: [1, 10],
+    progressive: true,
+    colors: true,
+    animation: true,
+  },
+  tiff: {
+    ...noEncoderSupport,
+    quality: true,
+  },
+  jxl: {
+    ...noEncoderSupport,
+    quality: true,
+    effort: [3, 9],
+    lossless: true,
+  },
+};
+
+// Preferred output formats for `format=auto`, best compression first
+const negotiableFormats = ["avif", "webp"] as const satisfies OutputFormat[];
+
+/**
+ * Encoder options supported for a format param. For `auto` these are the
+ * options every negotiable format supports, null for the source format.
+ */
+export function getEncoderSupport(format: string): EncoderSupport | null {
+  if (format !== "auto") {
+    return encoderSupport[format as OutputFormat] ?? null;
+  }
+
+  const supports = negotiableFormats.map((f) => encoderSupport[f]);
+  const common = { ...noEncoderSupport };
+  for (const key of Object.keys(common) as (keyof EncoderSupport)[]) {
+    if (key !== "effort") {
+      common[key] = supports.every((support) => support[key]);
+    }
+  }
+  const efforts = supports.map((support) => support.effort);
+  if (efforts.every((effort) => effort !== null)) {
+    common.effort = [
+      Math.max(...efforts.map(([min]) => min)),
+      Math.min(...efforts.map(([, max]) => max)),
+    ];
+  }
+  return common;
+}
+
+// Empty query values (e.g. `?w=`) are treated the same as missing ones
+function emptyToUndefined(value: unknown) {
+  return value === "" || value === null ? undefined : value;
+}
+
+function optionalInt(message: string, min: number, max = Infinity) {
+  return z.preprocess(
+    emptyToUndefined,
+    z.coerce
+      .number({ invalid_type_error: message })
+      .int(message)
+      .min(min, message)
+      .max(max, message)
+      .optional()
+  );
+}
+
+function optionalEnum<T extends Readonly<[string, ...string[]]>>(
+  values: T,
+  label: string
+) {
+  return z.preprocess(
+    emptyToUndefined,
+    z
+      .enum(values, {
+        errorMap: () => ({
+          message: `${label} must be one of: ${values.join(", ")}`,
+        }),
+      })
+      .optional()
+  );
+}
+
+function optionalBoolean(message: string) {
+  return z.preprocess(
+    emptyToUndefined,
+    z
+      .enum(["true", "false", "1", "0"], { errorMap: () => ({ message }) })
+      .transform((value) => value === "true" || value === "1")
+      .optional()
+  );
+}
+
+// Comma-separated frame delays in milliseconds, e.g. `100` or `100,50,50`
+function optionalDelays(message: string) {
+  return z.preprocess(
+    emptyToUndefined,
+    z
+      .string()
+      .regex(/^\d{1,5}(,\d{1,5})*$/, message)
+      .transform((value) => value.split(",").map(Number))
+      .refine((delays) => delays.every((delay) => delay <= 65535), message)
+      .optional()
+  );
+}
+
+function optionalNumber(message: string, min: number, max: number) {
+  return z.preprocess(
+    emptyToUndefined,
+    z.coerce
+      .number({ invalid_type_error: message })
+      .min(min, message)
+      .max(max, message)
+      .optional()
+  );
+}
+
+// Region as `x,y,w,h` in pixels, e.g. `0,0,400,300`
+function optionalRegion(message: string) {
+  return z.preprocess(
+    emptyToUndefined,
+    z
+      .string()
+      .regex(/^\d{1,5}(,\d{1,5}){3}$/, message)
+      .transform((value) => value.split(",").map(Number))
+      .refine(([, , width, height]) => width > 0 && height > 0, message)
+      .optional()
+  );
+}
+
+// Brightness and saturation multipliers and a hue rotation in degrees, e.g.
+// `1.2`, `1,0.5` or `1,1,90`. Missing values leave the image unchanged.
+function optionalModulation(message: string) {
+  return z.preprocess(
+    emptyToUndefined,
+    z
+      .string()
+      .regex(/^\d+(\.\d+)?(,\d+(\.\d+)?)?(,-?\d{1,3})?$/, message)
+      .transform((value) => value.split(",").map(Number))
+      .refine(
+        ([brightness, saturation = 1, hue = 0]) =>
+          brightness <= 10 && saturation <= 10 && Math.abs(hue) <= 360,
+        message
+      )
+      .optional()
+  );
+}
+
+// Offset as `x,y` in pixels, e.g. `20,10`
+function optionalOffset(message: string) {
+  return z.preprocess(
+    emptyToUndefined,
+    z
+      .string()
+      .regex(/^\d{1,5},\d{1,5}$/, message)
+      .transform((value) => value.split(",").map(Number))
+      .optional()
+  );
+}
+
+// Hex colours with or without a leading `#`, e.g. `fff` or `#ff000080`
+function optionalColor(message: string) {
+  return z.preprocess(
+    emptyToUndefined,
+    z
+      .string()
+      .regex(/^#?([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i, message)
+      .transform((value) => `#${value.replace("#", "").toLowerCase()}`)
+      .optional()
+  );
+}
+
+export const transformQuerySchema = z.object({
+  src: z
+    .string({ required_error: "Source image URL is required" })
+    .min(1, "Source image URL is required"),
+  // Checked against the presets by `applyPreset`
+  preset: z.preprocess(emptyToUndefined, z.string().optional()),
+  w: optionalInt("Width must be unset or a positive number", 1),
+  h: optionalInt("Height must be unset or a positive number", 1),
+  format: optionalEnum(formatParams, "Format"),
+  fit: optionalEnum(fits, "Fit"),
+  position: optionalEnum(positions, "Position"),
+  background: optionalColor("Background must be a hex colour"),
+  withoutEnlargement: optionalBoolean(
+    "withoutEnlargement must be true or false"
+  ),
+  crop: optionalRegion(
+    "Crop must be x,y,w,h in pixels with a positive width and height"
+  ),
+  cropAfterResize: optionalBoolean("cropAfterResize must be true or false"),
+  trim: optionalBoolean("trim must be true or false"),
+  flip: optionalBoolean("flip must be true or false"),
+  flop: optionalBoolean("flop must be true or false"),
+  rotate: optionalNumber(
+    "Rotate must be a number of degrees between -360 and 360",
+    -360,
+    360
+  ),
+  blur: optionalNumber("Blur must be a sigma between 0.3 and 1000", 0.3, 1000),
+  sharpen: optionalNumber(
+    "Sharpen must be a sigma between 0.01 and 10",
+    0.01,
+    10
+  ),
+  grayscale: optionalBoolean("grayscale must be true or false"),
+  tint: optionalColor("Tint must be a hex colour"),
+  modulate: optionalModulation(
+    "Modulate must be brightness[,saturation[,hue]] with multipliers up to 10 and a hue between -360 and 360"
+  ),
+  gamma: optionalNumber("Gamma must be a number between 1 and 3", 1, 3),
+  negate: optionalBoolean("negate must be true or false"),
+  normalize: optionalBoolean("normalize must be true or false"),
+  overlay: z.preprocess(emptyToUndefined, z.string().optional()),
+  text: z.preprocess(
+    emptyToUndefined,
+    z
+      .string()
+      .trim()
+      .min(1, "Text must not be blank")
+      .max(200, "Text must be at most 200 characters")
+      .optional()
+  ),
+  textColor: optionalColor("Text colour must be a hex colour"),
+  overlayGravity: optionalEnum(gravities, "Overlay gravity"),
+  overlayOffset: optionalOffset("Overlay offset must be x,y in pixels"),
+  overlayOpacity: optionalNumber(
+    "Overlay opacity must be a number between 0 and 1",
+    0,
+    1
+  ),
+  overlayTile: optionalBoolean("overlayTile must be true or false"),
+  overlaySize: optionalNumber(
+    "Overlay size must be a fraction of the image width between 0.01 and 1",
+    0.01,
+    1
+  ),
+  q: optionalInt("Quality must be an integer between 1 and 100", 1, 100),
+  effort: optionalInt("Effort must be an integer between 0 and 10", 0, 10),
+  lossless: optionalBoolean("lossless must be true or false"),
+  nearLossless: optionalBoolean("nearLossless must be true or false"),
+  chromaSubsampling: optionalEnum(chromaSubsamplings, "Chroma subsampling"),
+  progressive: optionalBoolean("progressive must be true or false"),
+  palette: optionalBoolean("palette must be true or false"),
+  colors: optionalInt("Colors must be an integer between 2 and 256", 2, 256),
+  frame: optionalInt("Frame must be unset or a non-negative integer", 0),
+  placeholder: optionalEnum(placeholders, "Placeholder"),
+  autoOrient: optionalBoolean("autoOrient must be true or false"),
+  metadata: optionalEnum(metadataModes, "Metadata"),
+  icc: optionalEnum(iccModes, "ICC"),
+  keepGps: optionalBoolean("keepGps must be true or false"),
+  loop: optionalInt("Loop must be an integer between 0 and 65535", 0, 65535),
+  delay: optionalDelays(
+    "Delay must be a comma-separated list of milliseconds up to 65535"
+  ),
+});
+
+export type TransformQuery = z.infer<typeof transformQuerySchema>;
+
+export interface Region {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+export interface Modulation {
+  brightness: number;
+  saturation: number;
+  hue: number;
+}
+
+export interface TransformOptions {
+  src: string;
+  width: number | null;
+  height: number | null;
+  format: OutputFormat | null;
+  fit: Fit | null;
+  position: Position | null;
+  background: string | null;
+  withoutEnlargement: boolean;
+  // Region to extract, in source pixels or, with cropAfterResize, in pixels
+  // of the resized image
+  crop: Region | null;
+  cropAfterResize: boolean;
+  // Removes borders of the top-left pixel's colour
+  trim: boolean;
+  // Mirrors vertically (flip) and horizontally (flop)
+  flip: boolean;
+  flop: boolean;
+  // Degrees clockwise, corners are filled with the background
+  rotate: number | null;
+  // Gaussian blur and sharpening sigmas
+  blur: number | null;
+  sharpen: number | null;
+  grayscale: boolean;
+  // Colour the image takes on while keeping its luminance
+  tint: string | null;
+  modulate: Modulation | null;
+  // Resizes in linear light by encoding with 1/gamma before and gamma after
+  gamma: number | null;
+  // Inverts the colours, alpha is kept
+  negate: boolean;
+  // Stretches the luminance to the full range
+  normalize: boolean;
+  // Source of an image, or a text, composited over the output
+  overlay: string | null;
+  text: string | null;
+  textColor: string | null;
+  overlayGravity: Gravity | null;
+  // Pixels between the overlay and the edges its gravity points to
+  overlayOffset: { x: number; y: number } | null;
+  overlayOpacity: number | null;
+  overlayTile: boolean;
+  // Width of the overlay as a fraction of the image's
+  overlaySize: number | null;
+  quality: number | null;
+  effort: number | null;
+  lossless: boolean | null;
+  nearLossless: boolean | null;
+  chromaSubsampling: ChromaSubsampling | null;
+  progressive: boolean | null;
+  palette: boolean | null;
+  colors: number | null;
+  // Zero-based frame to extract as a still image from animated sources
+  frame: number | null;
+  // Responds with a blurred placeholder of the requested image instead
+  placeholder: Placeholder | null;
+  // Rotation by the EXIF orientation, null applies it like true
+  autoOrient: boolean | null;
+  // null strips metadata and converts to sRGB like `strip` and `srgb`
+  metadata: MetadataMode | null;
+  icc: IccMode | null;
+  // Keeps EXIF GPS data with `metadata=keep`, which removes it otherwise
+  keepGps: boolean | null;
+  // Number of animation loops (0 loops forever) and per-frame delays
+  loop: number | null;
+  delay: number[] | null;
+  // Whether `format` was negotiated from the Accept header (`format=auto`)
+  autoFormat: boolean;
+}
+
+function acceptsType(accept: string, type: string) {
+  return accept.split(",").some((entry) => {
+    const [mediaType, ...params] = entry.split(";").map((part) => part.trim());
+    const quality = params.find((param) => param.startsWith("q="));
+    return (
+      mediaType.toLowerCase() === type &&
+      (!quality || Number(quality.slice(2)) > 0)
+    );
+  });
+}
+
+/**
+ * Picks the best available output format the client explicitly accepts.
+ * Returns null to keep the source format.
+ */
+export function negotiateFormat(
+  accept: string | null,
+  availableFormats: readonly OutputFormat[] = outputFormats
+): OutputFormat | null {
+  return (
+    negotiableFormats.find(
+      (format) =>
+        availableFormats.includes(format) &&
+        acceptsType(accept ?? "", `image/${format}`)
+    ) ?? null
+  );
+}
+
+type EncoderOptions = Pick<
+  TransformOptions,
+  | "quality"
+  | "effort"
+  | "lossless"
+  | "nearLossless"
+  | "chromaSubsampling"
+  | "progressive"
+  | "palette"
+  | "colors"
+  | "loop"
+  | "delay"
+>;
+
+const encoderParams: Record<keyof EncoderOptions, string> = {
+  quality: "q",
+  effort: "effort",
+  lossless: "lossless",
+  nearLossless: "nearLossless",
+  chromaSubsampling: "chromaSubsampling",
+  progressive: "progressive",
+  palette: "palette",
+  colors: "colors",
+  loop: "loop",
+  delay: "delay",
+};
+
+export const noEncoderOptions: EncoderOptions = {
+  quality: null,
+  effort: null,
+  lossless: null,
+  nearLossless: null,
+  chromaSubsampling: null,
+  progressive: null,
+  palette: null,
+  colors: null,
+  loop: null,
+  delay: null,
+};
+
+/**
+ * Checks the encoder options against what the output format supports, for
+ * `auto` what every negotiable format supports, so the answer doesn't
+ * depend on the Accept header. Returns the first problem as a message, or
+ * null if they are valid.
+ */
+function checkEncoderOptions(
+  format: OutputFormat | "auto" | null,
+  options: EncoderOptions
+) {
+  const used = (Object.keys(encoderParams) as (keyof EncoderOptions)[]).filter(
+    (option) => options[option] !== null
+  );
+  if (used.length === 0) {
+    return null;
+  }
+  if (!format) {
+    return `${encoderParams[used[0]]} requires an output format`;
+  }
+
+  const support = getEncoderSupport(format) ?? noEncoderSupport;
+  const unsupported = used.find((option) =>
+    option === "loop" || option === "delay"
+      ? !support.animation
+      : !support[option]
+  );
+  if (unsupported) {
+    return `${encoderParams[unsupported]} is not supported for ${format}`;
+  }
+  if (
+    support.effort &&
+    options.effort !== null &&
+    (options.effort < support.effort[0] || options.effort > support.effort[1])
+  ) {
+    return `Effort must be between ${support.effort[0]} and ${support.effort[1]} for ${format}`;
+  }
+  return null;
+}
+
+// Query value of a param typed by the schema, lists are comma-separated
+function toParamValue(value: TransformQuery[keyof TransformQuery]) {
+  return Array.isArray(value) ? value.join(",") : String(value);
+}
+
+function isPresetName(name: string): name is PresetName {
+  return Object.hasOwn(presets, name);
+}
+
+/**
+ * Whether a format supports the encoder option a preset param sets. Params
+ * that aren't encoder options apply to every format.
+ */
+function supportsPresetParam(
+  support: EncoderSupport,
+  param: string,
+  value: PresetParams[keyof PresetParams]
+) {
+  const option = (Object.keys(encoderParams) as (keyof EncoderOptions)[]).find(
+    (option) => encoderParams[option] === param
+  );
+  if (!option) {
+    return true;
+  }
+  if (option === "loop" || option === "delay") {
+    return support.animation;
+  }
+  if (option === "effort") {
+    return (
+      support.effort !== null &&
+      Number(value) >= support.effort[0] &&
+      Number(value) <= support.effort[1]
+    );
+  }
+  return support[option];
+}
+
+/**
+ * Fills in the params of the requested preset that aren't set explicitly.
+ * When the request sets its own format, the preset's encoder options that
+ * format doesn't support are left out.
+ */
+function applyPreset(searchParams: URLSearchParams) {
+  const name = searchParams.get("preset");
+  if (!name) {
+    return searchParams;
+  }
+  invariantResponse(
+    isPresetName(name),
+    `Preset must be one of: ${presetNames.join(", ")}`,
+    400
+  );
+  const format = searchParams.get("format");
+  const support = format ? getEncoderSupport(format) : null;
+  const params = new URLSearchParams(searchParams);
+  for (const [param, value] of Object.entries(presets[name].params)) {
+    if (
+      !params.has(param) &&
+      (!support || supportsPresetParam(support, param, value))
+    ) {
+      params.set(param, toParamValue(value));
+    }
+  }
+  return params;
+}
+
+/**
+ * Parses and validates the query of an image request. `accept` is the
+ * request's Accept header, used to resolve `format=auto`, and
+ * `availableFormats` the output formats the installed encoders support.
+ * Params of a `preset` are applied unless the query sets them itself.
+ * Throws a 400 Response with the first validation message on failure.
+ */
+export function parseTransformOptions(
+  searchParams: URLSearchParams,
+  accept: string | null,
+  availableFormats: readonly OutputFormat[] = outputFormats
+): TransformOptions {
+  const result = transformQuerySchema.safeParse(
+    Object.fromEntries(applyPreset(searchParams))
+  );
+  invariantResponse(
+    result.success,
+    result.success ? "" : result.error.issues[0].message,
+    400
+  );
+
+  const { src, w, h, format, ...params } = result.data;
+  const autoFormat = format === "auto";
+  const outputFormat =
+    (autoFormat ? negotiateFormat(accept, availableFormats) : format) ??
+    (params.placeholder ? placeholderFormat : null);
+  invariantResponse(
+    !outputFormat || availableFormats.includes(outputFormat),
+    `Format ${outputFormat} is not supported by this server. Available formats: ${availableFormats.join(
+      ", "
+    )}`,
+    400
+  );
+
+  const requested: EncoderOptions = {
+    quality: params.q ?? null,
+    effort: params.effort ?? null,
+    lossless: params.lossless ?? null,
+    nearLossless: params.nearLossless ?? null,
+    chromaSubsampling: params.chromaSubsampling ?? null,
+    progressive: params.progressive ?? null,
+    palette: params.palette ?? null,
+    colors: params.colors ?? null,
+    loop: params.loop ?? null,
+    delay: params.delay ?? null,
+  };
+  const encoderError = checkEncoderOptions(
+    autoFormat ? "auto" : outputFormat,
+    requested
+  );
+  invariantResponse(!encoderError, encoderError ?? "", 400);
+  // Encoder options can't apply when the client accepts no better format
+  const encoder = autoFormat && !outputFormat ? noEncoderOptions : requested;
+  invariantResponse(
+    params.keepGps === undefined || params.metadata === "keep",
+    "keepGps requires metadata=keep",
+    400
+  );
+  invariantResponse(
+    params.cropAfterResize === undefined || params.crop,
+    "cropAfterResize requires crop",
+    400
+  );
+  const [left, top, width, height] = params.crop ?? [];
+  const [brightness, saturation = 1, hue = 0] = params.modulate ?? [];
+  invariantResponse(
+    !params.overlay || !params.text,
+    "overlay and text can't be combined",
+    400
+  );
+  const hasOverlayOptions = [
+    params.overlayGravity,
+    params.overlayOffset,
+    params.overlayOpacity,
+    params.overlayTile,
+    params.overlaySize,
+  ].some((value) => value !== undefined);
+  invariantResponse(
+    !hasOverlayOptions || params.overlay || params.text,
+    "Overlay options require overlay or text",
+    400
+  );
+  invariantResponse(
+    !params.textColor || params.text,
+    "textColor requires text",
+    400
+  );
+  invariantResponse(
+    !params.overlayTile || !params.overlayOffset,
+    "overlayOffset can't be combined with overlayTile",
+    400
+  );
+  invariantResponse(
+    !params.placeholder || (!params.overlay && !params.text),
+    "Placeholders can't have an overlay",
+    400
+  );
+  const [x, y] = params.overlayOffset ?? [];
+
+  return {
+    src,
+    width: w ?? null,
+    height: h ?? null,
+    format: outputFormat,
+    fit: params.fit ?? null,
+    position: params.position ?? null,
+    background: params.background ?? null,
+    withoutEnlargement: params.withoutEnlargement ?? false,
+    crop: params.crop ? { left, top, width, height } : null,
+    cropAfterResize: params.cropAfterResize ?? false,
+    trim: params.trim ?? false,
+    flip: params.flip ?? false,
+    flop: params.flop ?? false,
+    // Full turns leave the image as it is
+    rotate: params.rotate && params.rotate % 360 !== 0 ? params.rotate : null,
+    blur: params.blur ?? null,
+    sharpen: params.sharpen ?? null,
+    grayscale: params.grayscale ?? false,
+    tint: params.tint ?? null,
+    modulate: params.modulate ? { brightness, saturation, hue } : null,
+    gamma: params.gamma ?? null,
+    negate: params.negate ?? false,
+    normalize: params.normalize ?? false,
+    overlay: params.overlay ?? null,
+    text: params.text ?? null,
+    textColor: params.textColor ?? null,
+    overlayGravity: params.overlayGravity ?? null,
+    overlayOffset: params.overlayOffset ? { x, y } : null,
+    overlayOpacity: params.overlayOpacity ?? null,
+    overlayTile: params.overlayTile ?? false,
+    overlaySize: params.overlaySize ?? null,
+    frame: params.frame ?? null,
+    placeholder: params.placeholder ?? null,
+    autoOrient: params.autoOrient ?? null,
+    metadata: params.metadata ?? null,
+    icc: params.icc ?? null,
+    keepGps: params.keepGps ?? null,
+    ...encoder,
+    autoFormat,
+  };
+}
+
+export function hasOverlay(options: TransformOptions) {
+  return options.overlay !== null || options.text !== null;
+}
+
+export function hasTransforms(options: TransformOptions) {
+  return (
+    options.format !== null ||
+    options.width !== null ||
+    options.height !== null ||
+    options.frame !== null ||
+    options.crop !== null ||
+    options.trim ||
+    options.flip ||
+    options.flop ||
+    options.rotate !== null ||
+    options.blur !== null ||
+    options.sharpen !== null ||
+    options.grayscale ||
+    options.tint !== null ||
+    options.modulate !== null ||
+    options.gamma !== null ||
+    options.negate ||
+    options.normalize ||
+    hasOverlay(options) ||
+    options.placeholder !== null ||
+    options.autoOrient !== null ||
+    options.metadata !== null ||
+    options.icc !== null ||
+    options.keepGps !== null
+  );
+}
+
+/**
+ * The operations a request applies, in the order they are applied, e.g.
+ * `["orient", "crop(0,0,400,300)", "resize(200x,cover)", "rotate(90)"]`.
+ * Image responses list them in the `X-Image-Operations` header.
+ */
+export function describeOperations(options: TransformOptions) {
+  const operations: string[] = [];
+  const crop =
+    options.crop &&
+    `crop(${options.crop.left},${options.crop.top},${options.crop.width},${options.crop.height})`;
+  if (options.frame !== null) {
+    operations.push(`frame(${options.frame})`);
+  }
+  // Only changes images with an EXIF orientation other than upright
+  if (options.autoOrient !== false) {
+    operations.push("orient");
+  }
+  if (options.trim) {
+    operations.push("trim");
+  }
+  if (crop && !options.cropAfterResize) {
+    operations.push(crop);
+  }
+  // Encodes before the resize and decodes after sharpening
+  if (options.gamma !== null) {
+    operations.push(`gamma(${options.gamma})`);
+  }
+  if (options.grayscale) {
+    operations.push("grayscale");
+  }
+  if (options.placeholder) {
+    operations.push("placeholder");
+  } else if (options.width || options.height) {
+    operations.push(
+      `resize(${options.width ?? ""}x${options.height ?? ""},${
+        options.fit ?? "cover"
+      })`
+    );
+  }
+  if (crop && options.cropAfterResize) {
+    operations.push(crop);
+  }
+  if (options.flip) {
+    operations.push("flip");
+  }
+  if (options.flop) {
+    operations.push("flop");
+  }
+  if (options.rotate !== null) {
+    operations.push(`rotate(${options.rotate})`);
+  }
+  if (options.blur !== null) {
+    operations.push(`blur(${options.blur})`);
+  }
+  if (options.modulate) {
+    const { brightness, saturation, hue } = options.modulate;
+    operations.push(`modulate(${brightness},${saturation},${hue})`);
+  }
+  if (options.sharpen !== null) {
+    operations.push(`sharpen(${options.sharpen})`);
+  }
+  if (options.normalize) {
+    operations.push("normalize");
+  }
+  if (options.tint) {
+    operations.push(`tint(${options.tint})`);
+  }
+  if (options.negate) {
+    operations.push("negate");
+  }
+  if (options.overlay) {
+    operations.push(`overlay(${options.overlay})`);
+  } else if (options.text) {
+    operations.push("text");
+  }
+  if (options.format) {
+    operations.push(`format(${options.format})`);
+  }
+  return operations;
+}
+
+export const imageEndpoints = ["img", "img-stream"] as const;
+export type ImageEndpoint = (typeof imageEndpoints)[number];
+
+/**
+ * Builds an image URL from params typed by the loaders' schema, e.g.
+ * `getImgSrc({ src: "/cat.png", w: 400, format: "webp" })`. Params are written
+ * in schema order, so the same options always give the same URL.
+ */
+export function getImgSrc(
+  query: TransformQuery,
+  endpoint: ImageEndpoint = "img"
+) {
+  const params = new URLSearchParams();
+  const names = Object.keys(transformQuerySchema.shape) as Array<
+    keyof TransformQuery
+  >;
+  for (const name of names) {
+    const value = query[name];
+    if (value !== undefined) {
+      params.append(name, toParamValue(value));
+    }
+  }
+  return `/${endpoint}?${params.toString()}`;
+}
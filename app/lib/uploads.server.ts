@@ -0,0 +1,132 @@
+import path from "node:path";
+import { randomUUID } from "node:crypto";
+import { mkdir, readdir, rm, stat, writeFile } from "node:fs/promises";
+import sharp from "sharp";
+import { limitsConfig, uploadConfig } from "./config.server";
+import { sniffImageType } from "./image-type";
+import { invariantResponse, limitResponse } from "./responses";
+
+// Uploads are used as `src=/uploads/<name>`
+const UPLOAD_PREFIX = "/uploads/";
+
+// Formats that can be uploaded and the extension they are stored with. SVG is
+// left out since the endpoints pass sources through as they are.
+const uploadTypes: Record<string, string> = {
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "image/gif": "gif",
+  "image/webp": "webp",
+  "image/avif": "avif",
+  "image/tiff": "tiff",
+};
+
+// Names `saveUpload` hands out, anything else is never read from the directory
+const uploadNamePattern = /^[0-9a-f]{8}(-[0-9a-f]{4}){3}-[0-9a-f]{12}\.[a-z]+$/;
+
+export interface Upload {
+  src: string;
+  size: number;
+  expiresAt: Date;
+}
+
+export function isUploadSource(src: string) {
+  return src.startsWith(UPLOAD_PREFIX);
+}
+
+/**
+ * File name of an upload `src`, or null if it can't belong to an upload.
+ */
+export function getUploadName(src: string) {
+  const name = src.slice(UPLOAD_PREFIX.length);
+  return isUploadSource(src) && uploadNamePattern.test(name) ? name : null;
+}
+
+export function getUploadExpiry(storedAt: Date) {
+  return new Date(storedAt.getTime() + uploadConfig.ttlSeconds * 1000);
+}
+
+/**
+ * Lists the uploads that haven't expired, newest first. Expired uploads are
+ * deleted along the way.
+ */
+export async function listUploads() {
+  const names = await readdir(uploadConfig.dir).catch(() => [] as string[]);
+  const uploads: Upload[] = [];
+  for (const name of names.filter((name) => uploadNamePattern.test(name))) {
+    const filePath = path.join(uploadConfig.dir, name);
+    const stats = await stat(filePath).catch(() => null);
+    if (!stats) {
+      continue;
+    }
+    const expiresAt = getUploadExpiry(stats.mtime);
+    if (expiresAt.getTime() <= Date.now()) {
+      await rm(filePath, { force: true });
+      continue;
+    }
+    uploads.push({ src: UPLOAD_PREFIX + name, size: stats.size, expiresAt });
+  }
+  return uploads.sort((a, b) => b.expiresAt.getTime() - a.expiresAt.getTime());
+}
+
+/**
+ * Validates an uploaded file and stores it under a random name. Rejects
+ * files over the size limit, in formats other than the upload types, that
+ * sharp can't read or that exceed the input pixel limit.
+ */
+export async function saveUpload(file: File) {
+  invariantResponse(uploadConfig.maxBytes > 0, "Uploads are disabled", 403);
+  invariantResponse(file.size > 0, "Upload is empty", 400);
+  if (file.size > uploadConfig.maxBytes) {
+    throw limitResponse(
+      `Upload must not exceed ${uploadConfig.maxBytes} bytes`,
+      413,
+      { limit: "uploadBytes", max: uploadConfig.maxBytes, value: file.size }
+    );
+  }
+
+  const data = Buffer.from(await file.arrayBuffer());
+  const contentType = sniffImageType(data);
+  const extension = contentType && uploadTypes[contentType];
+  invariantResponse(
+    extension,
+    `Upload must be one of: ${Object.values(uploadTypes).join(", ")}`,
+    415
+  );
+
+  const metadata = await sharp(data)
+    .metadata()
+    .catch(() => null);
+  invariantResponse(
+    metadata?.width && metadata.height,
+    "Upload is not a readable image",
+    415
+  );
+  const pixels = metadata.width * metadata.height;
+  if (pixels > limitsConfig.maxInputPixels) {
+    throw limitResponse("Image exceeds the pixel limit", 413, {
+      limit: "inputPixels",
+      max: limitsConfig.maxInputPixels,
+      value: pixels,
+    });
+  }
+
+  // Make room by deleting the oldest uploads
+  const uploads = await listUploads();
+  for (const upload of uploads.slice(Math.max(uploadConfig.maxFiles - 1, 0))) {
+    await rm(path.join(uploadConfig.dir, path.basename(upload.src)), {
+      force: true,
+    });
+  }
+
+  const name = `${randomUUID()}.${extension}`;
+  await mkdir(uploadConfig.dir, { recursive: true });
+  await writeFile(path.join(uploadConfig.dir, name), data);
+  return {
+    src: UPLOAD_PREFIX + name,
+    size: data.length,
+    contentType,
+    width: metadata.width,
+    height: metadata.pageHeight ?? metadata.height,
+    expiresAt: getUploadExpiry(new Date()),
+  };
+}
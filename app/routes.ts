@@ -1,7 +1,9 @@
-import { type RouteConfig, index } from "@react-router/dev/routes";
+import { type RouteConfig, index, route } from "@react-router/dev/routes";
 
 export default [
   index("routes/home.tsx"),
+  route("benchmark", "routes/benchmark.tsx"),
+  route("compare", "routes/compare.tsx"),
   {
     path: "/img",
     file: "routes/img.ts",
@@ -10,4 +12,24 @@ export default [
     path: "/img-stream",
     file: "routes/img-stream.ts",
   },
+  {
+    path: "/img-stats",
+    file: "routes/img-stats.ts",
+  },
+  {
+    path: "/img-hash",
+    file: "routes/img-hash.ts",
+  },
+  {
+    path: "/img-quality",
+    file: "routes/img-quality.ts",
+  },
+  {
+    path: "/img-info",
+    file: "routes/img-info.ts",
+  },
+  {
+    path: "/img-upload",
+    file: "routes/img-upload.ts",
+  },
 ] satisfies RouteConfig;
@@ -0,0 +1,486 @@
+import type { Route } from "./+types/benchmark";
+import { useEffect, useMemo, useState } from "react";
+import { Link, useFetcher } from "react-router";
+import {
+  createBenchmarkCases,
+  runConcurrently,
+  summarizeSamples,
+  toCsv,
+} from "~/lib/benchmark";
+import type {
+  BenchmarkCase,
+  BenchmarkFormat,
+  BenchmarkResult,
+  BenchmarkSample,
+} from "~/lib/benchmark";
+import { availableFormats } from "~/lib/capabilities.server";
+import {
+  formatSize,
+  imageAcceptHeader,
+  REFRESH_HEADER,
+} from "~/lib/playground";
+import { signPlaygroundUrls } from "~/lib/playground.server";
+import { imageEndpoints } from "~/lib/transform";
+import type { ImageEndpoint } from "~/lib/transform";
+
+export function meta({}: Route.MetaArgs) {
+  return [
+    { title: "Benchmark | Image Optimization Demo" },
+    {
+      name: "description",
+      content: "Compare image endpoints over a parameter matrix",
+    },
+  ];
+}
+
+export async function loader() {
+  return { formats: availableFormats };
+}
+
+// Signs all URLs of a run, see the home route
+export async function action({ request }: Route.ActionArgs) {
+  return signPlaygroundUrls(request);
+}
+
+interface BenchmarkSettings {
+  sources: string;
+  widths: string;
+  formats: BenchmarkFormat[];
+  endpoints: ImageEndpoint[];
+  iterations: number;
+  concurrency: number;
+}
+
+const defaultSettings: BenchmarkSettings = {
+  sources: "/cat.png",
+  widths: "400, 800, 1600",
+  formats: ["webp", "avif"],
+  endpoints: ["img", "img-stream"],
+  iterations: 5,
+  concurrency: 2,
+};
+
+type SortKey =
+  | "src"
+  | "width"
+  | "format"
+  | "endpoint"
+  | "p50"
+  | "p95"
+  | "peakMemory"
+  | "size";
+
+const columns: Array<{ key: SortKey; label: string }> = [
+  { key: "src", label: "Source" },
+  { key: "width", label: "Width" },
+  { key: "format", label: "Format" },
+  { key: "endpoint", label: "Endpoint" },
+  { key: "p50", label: "p50" },
+  { key: "p95", label: "p95" },
+  { key: "peakMemory", label: "Peak Memory" },
+  { key: "size", label: "Size" },
+];
+
+function splitList(value: string) {
+  return value
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+// An empty entry (e.g. `400, , 800`) or "original" keeps the source width
+function parseWidths(value: string) {
+  const widths = value.split(",").map((item) => {
+    const width = parseInt(item, 10);
+    return Number.isNaN(width) ? null : width;
+  });
+  return [...new Set(widths)];
+}
+
+function formatDuration(ms: number | null) {
+  return ms === null ? "–" : `${ms.toFixed(1)} ms`;
+}
+
+function download(filename: string, type: string, content: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+async function measure(url: string): Promise<BenchmarkSample> {
+  const start = performance.now();
+  try {
+    const response = await fetch(url, {
+      headers: {
+        Accept: imageAcceptHeader,
+        "Cache-Control": "no-cache",
+        Pragma: "no-cache",
+        // Skips the variant cache so every run encodes the image
+        [REFRESH_HEADER]: "1",
+      },
+    });
+    const blob = await response.blob();
+    const latency = performance.now() - start;
+    if (!response.ok) {
+      return {
+        latency,
+        peakMemory: null,
+        size: 0,
+        error: response.statusText || `HTTP ${response.status}`,
+      };
+    }
+
+    const requestId = response.headers.get("X-Request-Id");
+    const statsResponse = requestId
+      ? await fetch(`/img-stats?id=${requestId}`)
+      : null;
+    const stats = statsResponse?.ok ? await statsResponse.json() : null;
+    return {
+      latency,
+      peakMemory: stats?.peakMemory.rss ?? null,
+      size: blob.size,
+      error: null,
+    };
+  } catch (error) {
+    return {
+      latency: performance.now() - start,
+      peakMemory: null,
+      size: 0,
+      error: String(error),
+    };
+  }
+}
+
+export default function Benchmark({ loaderData }: Route.ComponentProps) {
+  const [settings, setSettings] = useState(defaultSettings);
+  const [running, setRunning] = useState(false);
+  const [progress, setProgress] = useState({ done: 0, total: 0 });
+  const [results, setResults] = useState<BenchmarkResult[]>([]);
+  const [sort, setSort] = useState<{ key: SortKey; ascending: boolean }>({
+    key: "p50",
+    ascending: true,
+  });
+  const [cases, setCases] = useState<BenchmarkCase[]>([]);
+  const signer = useFetcher<typeof action>();
+
+  const formatOptions: BenchmarkFormat[] = [...loaderData.formats, "original"];
+
+  function toggle<T extends string>(list: T[], value: T) {
+    return list.includes(value)
+      ? list.filter((item) => item !== value)
+      : [...list, value];
+  }
+
+  const startBenchmark = () => {
+    const nextCases = createBenchmarkCases({
+      sources: splitList(settings.sources),
+      widths: parseWidths(settings.widths),
+      formats: settings.formats,
+      endpoints: settings.endpoints,
+    });
+    if (nextCases.length === 0) {
+      return;
+    }
+    setCases(nextCases);
+    setResults([]);
+    setRunning(true);
+    const formData = new FormData();
+    for (const benchmarkCase of nextCases) {
+      formData.append("url", benchmarkCase.url);
+    }
+    signer.submit(formData, { method: "post" });
+  };
+
+  // Runs the cases once the server has signed their URLs
+  useEffect(() => {
+    if (!signer.data || !running) {
+      return;
+    }
+    const signedUrls = signer.data.urls;
+    const samples: BenchmarkSample[][] = cases.map(() => []);
+    // Iterations are interleaved so that no case only runs on a warm server
+    const tasks = Array.from({ length: settings.iterations }, () =>
+      signedUrls.map((url, index) => async () => ({
+        index,
+        sample: await measure(url),
+      }))
+    ).flat();
+
+    setProgress({ done: 0, total: tasks.length });
+    runConcurrently(tasks, settings.concurrency, ({ index, sample }) => {
+      samples[index].push(sample);
+      setProgress((previous) => ({ ...previous, done: previous.done + 1 }));
+    }).then(() => {
+      setResults(
+        cases.map((benchmarkCase, index) =>
+          summarizeSamples(benchmarkCase, samples[index])
+        )
+      );
+      setRunning(false);
+    });
+  }, [signer.data]);
+
+  const sortedResults = useMemo(() => {
+    return [...results].sort((a, b) => {
+      const aValue = a[sort.key];
+      const bValue = b[sort.key];
+      // Missing values always go last
+      if (aValue === null || bValue === null) {
+        return aValue === bValue ? 0 : aValue === null ? 1 : -1;
+      }
+      const order =
+        typeof aValue === "number" && typeof bValue === "number"
+          ? aValue - bValue
+          : String(aValue).localeCompare(String(bValue));
+      return sort.ascending ? order : -order;
+    });
+  }, [results, sort]);
+
+  const inputClassName =
+    "w-full px-3 py-3 text-xl border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 bg-white text-gray-800";
+  const labelClassName = "block text-lg font-medium text-gray-800 mb-1";
+
+  return (
+    <div className="min-h-screen bg-white p-8 space-y-8">
+      <div className="flex items-center justify-between">
+        <h1 className="text-3xl font-semibold text-gray-800">Benchmark</h1>
+        <Link to="/" className="text-lg text-indigo-600 hover:underline">
+          Back to the playground
+        </Link>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <div>
+          <label htmlFor="sources" className={labelClassName}>
+            Sources (comma-separated)
+          </label>
+          <input
+            type="text"
+            id="sources"
+            value={settings.sources}
+            onChange={(event) =>
+              setSettings({ ...settings, sources: event.target.value })
+            }
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label htmlFor="widths" className={labelClassName}>
+            Widths (comma-separated, "original" keeps the size)
+          </label>
+          <input
+            type="text"
+            id="widths"
+            value={settings.widths}
+            onChange={(event) =>
+              setSettings({ ...settings, widths: event.target.value })
+            }
+            className={inputClassName}
+          />
+        </div>
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label htmlFor="iterations" className={labelClassName}>
+              Runs per case
+            </label>
+            <input
+              type="number"
+              id="iterations"
+              min="1"
+              value={settings.iterations}
+              onChange={(event) =>
+                setSettings({
+                  ...settings,
+                  iterations: Math.max(1, parseInt(event.target.value) || 1),
+                })
+              }
+              className={inputClassName}
+            />
+          </div>
+          <div>
+            <label htmlFor="concurrency" className={labelClassName}>
+              Concurrency
+            </label>
+            <input
+              type="number"
+              id="concurrency"
+              min="1"
+              value={settings.concurrency}
+              onChange={(event) =>
+                setSettings({
+                  ...settings,
+                  concurrency: Math.max(1, parseInt(event.target.value) || 1),
+                })
+              }
+              className={inputClassName}
+            />
+          </div>
+        </div>
+        <fieldset>
+          <legend className={labelClassName}>Formats</legend>
+          <div className="flex flex-wrap gap-4">
+            {formatOptions.map((format) => (
+              <label key={format} className="flex items-center gap-2 text-lg">
+                <input
+                  type="checkbox"
+                  checked={settings.formats.includes(format)}
+                  onChange={() =>
+                    setSettings({
+                      ...settings,
+                      formats: toggle(settings.formats, format),
+                    })
+                  }
+                  className="h-5 w-5"
+                />
+                {format}
+              </label>
+            ))}
+          </div>
+        </fieldset>
+        <fieldset>
+          <legend className={labelClassName}>Endpoints</legend>
+          <div className="flex flex-wrap gap-4">
+            {imageEndpoints.map((endpoint) => (
+              <label key={endpoint} className="flex items-center gap-2 text-lg">
+                <input
+                  type="checkbox"
+                  checked={settings.endpoints.includes(endpoint)}
+                  onChange={() =>
+                    setSettings({
+                      ...settings,
+                      endpoints: toggle(settings.endpoints, endpoint),
+                    })
+                  }
+                  className="h-5 w-5"
+                />
+                /{endpoint}
+              </label>
+            ))}
+          </div>
+        </fieldset>
+        <div className="flex items-end gap-4">
+          <button
+            onClick={startBenchmark}
+            disabled={running}
+            className={`px-6 py-3 text-xl rounded-md focus:outline-none focus:ring-2 focus:ring-offset-2 ${
+              running
+                ? "bg-gray-400 text-white cursor-not-allowed"
+                : "bg-green-600 text-white hover:bg-green-700 focus:ring-green-500"
+            }`}
+          >
+            {running
+              ? `Running ${progress.done} / ${progress.total}`
+              : "Run Benchmark"}
+          </button>
+        </div>
+      </div>
+
+      <p className="text-base text-gray-500">
+        Latency is measured in the browser, which opens at most 6 connections
+        per host over HTTP/1.1. Peak memory is the highest RSS increase the
+        server reported for a run.
+      </p>
+
+      {results.length > 0 && (
+        <div className="bg-white rounded-lg border border-gray-200 shadow-sm overflow-hidden">
+          <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+            <h2 className="text-xl font-semibold text-gray-800">Results</h2>
+            <div className="flex gap-4">
+              <button
+                onClick={() =>
+                  download("benchmark.csv", "text/csv", toCsv(sortedResults))
+                }
+                className="px-4 py-2 text-base bg-gray-200 text-gray-800 rounded-md hover:bg-gray-300"
+              >
+                Export CSV
+              </button>
+              <button
+                onClick={() =>
+                  download(
+                    "benchmark.json",
+                    "application/json",
+                    JSON.stringify(sortedResults, null, 2)
+                  )
+                }
+                className="px-4 py-2 text-base bg-gray-200 text-gray-800 rounded-md hover:bg-gray-300"
+              >
+                Export JSON
+              </button>
+            </div>
+          </div>
+          <table className="w-full">
+            <thead>
+              <tr className="bg-gray-100 text-left text-sm font-semibold text-gray-600 uppercase tracking-wider">
+                {columns.map((column) => (
+                  <th key={column.key} className="px-6 py-4">
+                    <button
+                      onClick={() =>
+                        setSort({
+                          key: column.key,
+                          ascending:
+                            sort.key === column.key ? !sort.ascending : true,
+                        })
+                      }
+                      className="uppercase"
+                    >
+                      {column.label}
+                      {sort.key === column.key
+                        ? sort.ascending
+                          ? " ▲"
+                          : " ▼"
+                        : ""}
+                    </button>
+                  </th>
+                ))}
+                <th className="px-6 py-4">Errors</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {sortedResults.map((result, index) => (
+                <tr
+                  key={result.url}
+                  className={index % 2 === 0 ? "bg-white" : "bg-gray-50"}
+                >
+                  <td className="px-6 py-4 text-base text-gray-800">
+                    {result.src}
+                  </td>
+                  <td className="px-6 py-4 text-base text-gray-800">
+                    {result.width ?? "original"}
+                  </td>
+                  <td className="px-6 py-4 text-base text-gray-800">
+                    {result.format}
+                  </td>
+                  <td className="px-6 py-4 text-base text-purple-600">
+                    /{result.endpoint}
+                  </td>
+                  <td className="px-6 py-4 text-base text-gray-800">
+                    {formatDuration(result.p50)}
+                  </td>
+                  <td className="px-6 py-4 text-base text-gray-800">
+                    {formatDuration(result.p95)}
+                  </td>
+                  <td className="px-6 py-4 text-base text-indigo-600">
+                    {formatSize(result.peakMemory)}
+                  </td>
+                  <td className="px-6 py-4 text-base text-gray-800">
+                    {formatSize(result.size)}
+                  </td>
+                  <td
+                    className={`px-6 py-4 text-base ${
+                      result.errors > 0 ? "text-red-600" : "text-gray-500"
+                    }`}
+                  >
+                    {result.errors} / {result.runs}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,503 @@
+import type { Route } from "./+types/compare";
+import { useEffect, useRef, useState } from "react";
+import { Link, useFetcher } from "react-router";
+import { availableFormats } from "~/lib/capabilities.server";
+import { formatSize, imageAcceptHeader } from "~/lib/playground";
+import { signPlaygroundUrls } from "~/lib/playground.server";
+import { getEncoderSupport, getImgSrc } from "~/lib/transform";
+import type { OutputFormat } from "~/lib/transform";
+
+export function meta({}: Route.MetaArgs) {
+  return [
+    { title: "Compare | Image Optimization Demo" },
+    {
+      name: "description",
+      content: "Compare image variants side by side",
+    },
+  ];
+}
+
+export async function loader() {
+  return { formats: availableFormats };
+}
+
+// Signs the URLs of all panels, see the home route
+export async function action({ request }: Route.ActionArgs) {
+  return signPlaygroundUrls(request);
+}
+
+interface VariantSettings {
+  format: OutputFormat;
+  quality: number | null;
+}
+
+interface Panel {
+  label: string;
+  // Object URL of the downloaded image
+  objectUrl: string;
+  size: number;
+  contentType: string;
+  // Scores against the source, null for the source itself
+  quality: { ssim: number; psnr: number | null } | null;
+  error: string | null;
+}
+
+interface View {
+  scale: number;
+  x: number;
+  y: number;
+}
+
+const initialView: View = { scale: 1, x: 0, y: 0 };
+
+function getVariantUrl(
+  src: string,
+  width: number | null,
+  variant: VariantSettings
+) {
+  const quality =
+    getEncoderSupport(variant.format)?.quality && variant.quality !== null
+      ? variant.quality
+      : undefined;
+  return getImgSrc({
+    src,
+    w: width ?? undefined,
+    format: variant.format,
+    q: quality,
+  });
+}
+
+function getVariantLabel(variant: VariantSettings) {
+  return variant.quality !== null && getEncoderSupport(variant.format)?.quality
+    ? `${variant.format} q${variant.quality}`
+    : variant.format;
+}
+
+async function loadPanel(
+  label: string,
+  url: string,
+  scored: boolean
+): Promise<Panel> {
+  const response = await fetch(url, {
+    headers: { Accept: imageAcceptHeader },
+  });
+  if (!response.ok) {
+    return {
+      label,
+      objectUrl: "",
+      size: 0,
+      contentType: "",
+      quality: null,
+      error: response.statusText || `HTTP error! Status: ${response.status}`,
+    };
+  }
+  const blob = await response.blob();
+
+  let quality = null;
+  if (scored) {
+    const qualityResponse = await fetch(
+      `/img-quality?url=${encodeURIComponent(url)}`,
+      { headers: { Accept: imageAcceptHeader } }
+    );
+    quality = qualityResponse.ok ? await qualityResponse.json() : null;
+  }
+
+  return {
+    label,
+    objectUrl: URL.createObjectURL(blob),
+    size: blob.size,
+    contentType: response.headers.get("Content-Type") ?? "",
+    quality,
+    error: null,
+  };
+}
+
+/**
+ * Shows an image inside a fixed frame, zoomed and panned by the shared view
+ * so that all panels show the same region.
+ */
+function Viewport({
+  src,
+  view,
+  onViewChange,
+  clip,
+}: {
+  src: string;
+  view: View;
+  onViewChange: (view: View) => void;
+  clip?: string;
+}) {
+  const drag = useRef<{ x: number; y: number } | null>(null);
+
+  // Clipping the unscaled frame keeps the slider edge in place while zooming
+  return (
+    <div className="absolute inset-0" style={{ clipPath: clip }}>
+      <img
+        src={src}
+        alt=""
+        draggable={false}
+        onPointerDown={(event) => {
+          event.currentTarget.setPointerCapture(event.pointerId);
+          drag.current = { x: event.clientX, y: event.clientY };
+        }}
+        onPointerMove={(event) => {
+          if (!drag.current) {
+            return;
+          }
+          onViewChange({
+            ...view,
+            x: view.x + (event.clientX - drag.current.x) / view.scale,
+            y: view.y + (event.clientY - drag.current.y) / view.scale,
+          });
+          drag.current = { x: event.clientX, y: event.clientY };
+        }}
+        onPointerUp={() => {
+          drag.current = null;
+        }}
+        className="absolute inset-0 w-full h-full object-contain cursor-move select-none"
+        style={{
+          transform: `scale(${view.scale}) translate(${view.x}px, ${view.y}px)`,
+        }}
+      />
+    </div>
+  );
+}
+
+// `sourceSize` is left out for the source panel itself
+function PanelStats({
+  panel,
+  sourceSize,
+}: {
+  panel: Panel;
+  sourceSize?: number;
+}) {
+  if (panel.error) {
+    return <p className="text-base text-red-600">{panel.error}</p>;
+  }
+  return (
+    <div className="text-base text-gray-600 space-y-1">
+      <p>
+        <span className="font-medium text-gray-800">{panel.label}</span>
+        {" · "}
+        {panel.contentType.replace("image/", "")}
+      </p>
+      <p>
+        {formatSize(panel.size)}
+        {sourceSize
+          ? ` (${Math.round((1 - panel.size / sourceSize) * 100)}% smaller)`
+          : ""}
+      </p>
+      {panel.quality && (
+        <p className="text-indigo-600">
+          SSIM {panel.quality.ssim.toFixed(4)} · PSNR{" "}
+          {panel.quality.psnr === null
+            ? "∞"
+            : `${panel.quality.psnr.toFixed(2)} dB`}
+        </p>
+      )}
+    </div>
+  );
+}
+
+export default function Compare({ loaderData }: Route.ComponentProps) {
+  const [src, setSrc] = useState("/cat.png");
+  const [width, setWidth] = useState<number | null>(800);
+  const [variants, setVariants] = useState<VariantSettings[]>([
+    { format: "webp", quality: 75 },
+    { format: "avif", quality: 50 },
+  ]);
+  const [panels, setPanels] = useState<Panel[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [mode, setMode] = useState<"side-by-side" | "slider">("side-by-side");
+  const [sliderPanels, setSliderPanels] = useState<[number, number]>([0, 1]);
+  const [sliderPosition, setSliderPosition] = useState(50);
+  const [view, setView] = useState(initialView);
+  const signer = useFetcher<typeof action>();
+
+  const compare = () => {
+    setLoading(true);
+    const formData = new FormData();
+    // The first panel is the source as it is
+    formData.append("url", getImgSrc({ src }));
+    for (const variant of variants) {
+      formData.append("url", getVariantUrl(src, width, variant));
+    }
+    signer.submit(formData, { method: "post" });
+  };
+
+  // Loads the panels once the server has signed their URLs
+  useEffect(() => {
+    if (!signer.data) {
+      return;
+    }
+    const labels = ["Source", ...variants.map(getVariantLabel)];
+    Promise.all(
+      signer.data.urls.map((url, index) =>
+        loadPanel(labels[index], url, index > 0)
+      )
+    ).then((nextPanels) => {
+      setPanels((previous) => {
+        previous.forEach((panel) => URL.revokeObjectURL(panel.objectUrl));
+        return nextPanels;
+      });
+      setSliderPanels([0, Math.min(1, nextPanels.length - 1)]);
+      setView(initialView);
+      setLoading(false);
+    });
+  }, [signer.data]);
+
+  const updateVariant = (index: number, update: Partial<VariantSettings>) => {
+    setVariants(
+      variants.map((variant, i) =>
+        i === index ? { ...variant, ...update } : variant
+      )
+    );
+  };
+
+  const inputClassName =
+    "w-full px-3 py-3 text-xl border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 bg-white text-gray-800";
+  const labelClassName = "block text-lg font-medium text-gray-800 mb-1";
+
+  return (
+    <div className="min-h-screen bg-white p-8 space-y-8">
+      <div className="flex items-center justify-between">
+        <h1 className="text-3xl font-semibold text-gray-800">Compare</h1>
+        <Link to="/" className="text-lg text-indigo-600 hover:underline">
+          Back to the playground
+        </Link>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div>
+          <label htmlFor="src" className={labelClassName}>
+            Image Source URL
+          </label>
+          <input
+            type="text"
+            id="src"
+            value={src}
+            onChange={(event) => setSrc(event.target.value)}
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label htmlFor="width" className={labelClassName}>
+            Width
+          </label>
+          <input
+            type="number"
+            id="width"
+            min="1"
+            value={width ?? ""}
+            onChange={(event) =>
+              setWidth(event.target.value ? parseInt(event.target.value) : null)
+            }
+            className={inputClassName}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        <h2 className="text-xl font-semibold text-gray-800">Variants</h2>
+        {variants.map((variant, index) => (
+          <div key={index} className="flex items-end gap-4">
+            <div>
+              <label htmlFor={`format-${index}`} className={labelClassName}>
+                Format
+              </label>
+              <select
+                id={`format-${index}`}
+                value={variant.format}
+                onChange={(event) =>
+                  updateVariant(index, {
+                    format: event.target.value as OutputFormat,
+                  })
+                }
+                className={inputClassName}
+              >
+                {loaderData.formats.map((format) => (
+                  <option key={format} value={format}>
+                    {format}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor={`quality-${index}`} className={labelClassName}>
+                Quality
+              </label>
+              <input
+                type="number"
+                id={`quality-${index}`}
+                min="1"
+                max="100"
+                value={variant.quality ?? ""}
+                disabled={!getEncoderSupport(variant.format)?.quality}
+                onChange={(event) =>
+                  updateVariant(index, {
+                    quality: event.target.value
+                      ? parseInt(event.target.value)
+                      : null,
+                  })
+                }
+                className={inputClassName}
+              />
+            </div>
+            <button
+              onClick={() =>
+                setVariants(variants.filter((_, i) => i !== index))
+              }
+              disabled={variants.length <= 1}
+              className="px-4 py-3 text-base bg-gray-200 text-gray-800 rounded-md hover:bg-gray-300 disabled:opacity-50"
+            >
+              Remove
+            </button>
+          </div>
+        ))}
+        <div className="flex gap-4">
+          <button
+            onClick={() =>
+              setVariants([...variants, { format: "webp", quality: null }])
+            }
+            className="px-4 py-3 text-base bg-gray-200 text-gray-800 rounded-md hover:bg-gray-300"
+          >
+            Add Variant
+          </button>
+          <button
+            onClick={compare}
+            disabled={loading}
+            className={`px-6 py-3 text-xl rounded-md focus:outline-none focus:ring-2 focus:ring-offset-2 ${
+              loading
+                ? "bg-gray-400 text-white cursor-not-allowed"
+                : "bg-green-600 text-white hover:bg-green-700 focus:ring-green-500"
+            }`}
+          >
+            {loading ? "Comparing..." : "Compare"}
+          </button>
+        </div>
+      </div>
+
+      {panels.length > 0 && (
+        <div className="space-y-4">
+          <div className="flex flex-wrap items-center gap-6">
+            <div className="flex gap-2">
+              {(["side-by-side", "slider"] as const).map((value) => (
+                <button
+                  key={value}
+                  onClick={() => setMode(value)}
+                  className={`px-4 py-2 text-base rounded-md ${
+                    mode === value
+                      ? "bg-indigo-600 text-white"
+                      : "bg-gray-200 text-gray-800 hover:bg-gray-300"
+                  }`}
+                >
+                  {value === "slider" ? "Slider" : "Side by Side"}
+                </button>
+              ))}
+            </div>
+            <label className="flex items-center gap-2 text-lg text-gray-800">
+              Zoom
+              <input
+                type="range"
+                min="1"
+                max="8"
+                step="0.25"
+                value={view.scale}
+                onChange={(event) =>
+                  setView({ ...view, scale: Number(event.target.value) })
+                }
+              />
+              {view.scale}×
+            </label>
+            <button
+              onClick={() => setView(initialView)}
+              className="px-4 py-2 text-base bg-gray-200 text-gray-800 rounded-md hover:bg-gray-300"
+            >
+              Reset View
+            </button>
+            <p className="text-base text-gray-500">
+              Drag an image to pan, all panels follow.
+            </p>
+          </div>
+
+          {mode === "side-by-side" ? (
+            <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
+              {panels.map((panel, index) => (
+                <div key={index} className="space-y-2">
+                  <div className="relative h-[400px] bg-gray-100 rounded-md overflow-hidden">
+                    {panel.objectUrl && (
+                      <Viewport
+                        src={panel.objectUrl}
+                        view={view}
+                        onViewChange={setView}
+                      />
+                    )}
+                  </div>
+                  <PanelStats
+                    panel={panel}
+                    sourceSize={index > 0 ? panels[0].size : undefined}
+                  />
+                </div>
+              ))}
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <div className="flex gap-6">
+                {sliderPanels.map((selected, side) => (
+                  <select
+                    key={side}
+                    value={selected}
+                    onChange={(event) => {
+                      const next: [number, number] = [...sliderPanels];
+                      next[side] = Number(event.target.value);
+                      setSliderPanels(next);
+                    }}
+                    className="px-3 py-2 text-lg border border-gray-300 rounded-md bg-white"
+                  >
+                    {panels.map((panel, index) => (
+                      <option key={index} value={index}>
+                        {side === 0 ? "Left" : "Right"}: {panel.label}
+                      </option>
+                    ))}
+                  </select>
+                ))}
+              </div>
+              <div className="relative h-[600px] bg-gray-100 rounded-md overflow-hidden">
+                <Viewport
+                  src={panels[sliderPanels[1]].objectUrl}
+                  view={view}
+                  onViewChange={setView}
+                />
+                <Viewport
+                  src={panels[sliderPanels[0]].objectUrl}
+                  view={view}
+                  onViewChange={setView}
+                  clip={`inset(0 ${100 - sliderPosition}% 0 0)`}
+                />
+              </div>
+              <input
+                type="range"
+                min="0"
+                max="100"
+                value={sliderPosition}
+                onChange={(event) =>
+                  setSliderPosition(Number(event.target.value))
+                }
+                className="w-full"
+              />
+              <div className="grid grid-cols-2 gap-6">
+                {sliderPanels.map((selected, side) => (
+                  <PanelStats
+                    key={side}
+                    panel={panels[selected]}
+                    sourceSize={selected > 0 ? panels[0].size : undefined}
+                  />
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,31 @@
 import type { Route } from "./+types/home";
-import { useState, useRef, useMemo } from "react";
+import { useState, useMemo, useRef } from "react";
 import React from "react";
+import { Link, useFetcher, useRevalidator } from "react-router";
+import { getImageUrls, Image } from "~/components/image";
+import type { ImageProps } from "~/components/image";
+import { availableFormats } from "~/lib/capabilities.server";
+import { limitsConfig } from "~/lib/config.server";
+import {
+  formatSize,
+  imageAcceptHeader,
+  REFRESH_HEADER,
+} from "~/lib/playground";
+import { signPlaygroundUrls } from "~/lib/playground.server";
+import { presets } from "~/lib/presets";
+import type { PresetName } from "~/lib/presets";
+import { listSources } from "~/lib/source.server";
+import {
+  chromaSubsamplings,
+  fits,
+  getEncoderSupport,
+  gravities,
+  getImgSrc,
+  iccModes,
+  metadataModes,
+  positions,
+} from "~/lib/transform";
+import type { Fit, Position } from "~/lib/transform";
 
 export function meta({}: Route.MetaArgs) {
   return [
@@ -9,74 +34,498 @@ export function meta({}: Route.MetaArgs) {
   ];
 }
 
-function formatSize(sizeInBytes: string | number) {
-  let sizeNumber: number;
-  if (typeof sizeInBytes === "string") {
-    sizeNumber = Math.abs(parseInt(sizeInBytes, 10));
-  } else {
-    sizeNumber = sizeInBytes;
+export async function loader() {
+  return {
+    formats: availableFormats,
+    sources: await listSources(),
+    presetsOnly: limitsConfig.presetsOnly,
+  };
+}
+
+// Signs preview URLs so the playground keeps working with IMG_SIGNING_KEYS
+// set. Only opted into with IMG_SIGN_PLAYGROUND, see `signPlaygroundUrls`.
+export async function action({ request }: Route.ActionArgs) {
+  return signPlaygroundUrls(request);
+}
+
+function formatDuration(ms: number) {
+  return ms < 1000 ? `${ms.toFixed(1)} ms` : `${(ms / 1000).toFixed(2)} s`;
+}
+
+/**
+ * Uploads a dropped or picked image through /img-upload and passes its `src`
+ * on. Revalidating refreshes the list of sources.
+ */
+function UploadDropzone({ onUpload }: { onUpload: (src: string) => void }) {
+  const revalidator = useRevalidator();
+  const [dragging, setDragging] = useState(false);
+  const [uploading, setUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function upload(file: File) {
+    setUploading(true);
+    setError(null);
+    const formData = new FormData();
+    formData.append("file", file);
+    try {
+      const response = await fetch("/img-upload", {
+        method: "POST",
+        body: formData,
+      });
+      if (!response.ok) {
+        setError(
+          response.statusText || `Upload failed with status ${response.status}`
+        );
+        return;
+      }
+      const { src } = await response.json();
+      revalidator.revalidate();
+      onUpload(src);
+    } catch (error) {
+      setError(String(error));
+    } finally {
+      setUploading(false);
+    }
   }
 
-  if (sizeNumber < 1000 * 1000) {
-    return `${(sizeNumber / 1000).toFixed(2)} KB`;
-  } else {
-    const mbSize = sizeNumber / (1000 * 1000);
-    return `${mbSize.toFixed(2)} MB`;
+  return (
+    <label
+      onDragOver={(e) => {
+        e.preventDefault();
+        setDragging(true);
+      }}
+      onDragLeave={() => setDragging(false)}
+      onDrop={(e) => {
+        e.preventDefault();
+        setDragging(false);
+        const file = e.dataTransfer.files[0];
+        if (file) {
+          upload(file);
+        }
+      }}
+      className={`block p-6 border-2 border-dashed rounded-md text-center text-lg text-gray-600 cursor-pointer ${
+        dragging ? "border-indigo-500 bg-indigo-50" : "border-gray-300 bg-white"
+      }`}
+    >
+      <input
+        type="file"
+        accept="image/png,image/jpeg,image/gif,image/webp,image/avif,image/tiff"
+        className="sr-only"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) {
+            upload(file);
+          }
+          e.target.value = "";
+        }}
+      />
+      {uploading ? "Uploading..." : "Drop an image here or click to upload"}
+      {error && <p className="mt-2 text-base text-red-600">{error}</p>}
+    </label>
+  );
+}
+
+/**
+ * Renders the loaded source with <Image> and shows the HTML it generates,
+ * read back from the rendered element. All candidate URLs are signed up
+ * front, see the route action.
+ */
+function ResponsiveImageExample(props: ImageProps) {
+  const signer = useFetcher<typeof action>();
+  const preview = useRef<HTMLDivElement>(null);
+  const [markup, setMarkup] = useState("");
+  const urls = useMemo(
+    () => getImageUrls(props),
+    [
+      props.src,
+      props.width,
+      props.quality,
+      props.breakpoints,
+      props.endpoint,
+      props.formats,
+    ]
+  );
+
+  React.useEffect(() => {
+    const formData = new FormData();
+    urls.forEach((url) => formData.append("url", url));
+    signer.submit(formData, { method: "post" });
+  }, [urls]);
+
+  const signedUrls = signer.data?.urls;
+
+  React.useEffect(() => {
+    setMarkup(preview.current?.innerHTML ?? "");
+  }, [signedUrls]);
+
+  if (!signedUrls || signedUrls.length !== urls.length) {
+    return null;
   }
+  const image = (
+    <Image
+      {...props}
+      loader={(query, endpoint) => {
+        const url = getImgSrc(query, endpoint);
+        return signedUrls[urls.indexOf(url)] ?? url;
+      }}
+    />
+  );
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-8 p-6">
+      <div className="flex items-center justify-center bg-gray-100 p-4 rounded-md">
+        <div ref={preview} className="max-w-full max-h-[400px] overflow-hidden">
+          {image}
+        </div>
+      </div>
+      <pre className="text-base bg-gray-50 p-4 rounded-md border border-gray-200 overflow-x-auto whitespace-pre-wrap break-all text-gray-800">
+        {markup.replace(/></g, ">\n<").replace(/\n<(source|img)/g, "\n  <$1")}
+      </pre>
+    </div>
+  );
+}
+
+interface PlaceholderPreviewItem {
+  label: string;
+  // Image to show, an object or data URI
+  url: string;
+  // Bytes the placeholder costs, e.g. the encoded image or the hash
+  size: number;
+  detail?: string;
+}
+
+/**
+ * Requests each kind of placeholder for the loaded image and shows them
+ * stretched to the same size as the full image.
+ */
+function PlaceholderPreview({
+  params,
+  fullUrl,
+  fullSize,
+}: {
+  params: ImageParams;
+  fullUrl: string;
+  fullSize: number;
+}) {
+  const signer = useFetcher<typeof action>();
+  const [items, setItems] = useState<PlaceholderPreviewItem[]>([]);
+
+  const urls = useMemo(() => {
+    const query = {
+      src: params.src,
+      w: params.width ?? undefined,
+      h: params.height ?? undefined,
+      fit: (params.fit || undefined) as Fit | undefined,
+      position: (params.position || undefined) as Position | undefined,
+      background: params.background || undefined,
+    };
+    return [
+      getImgSrc({ ...query, placeholder: "image" }),
+      getImgSrc({ ...query, placeholder: "json" }),
+      `/img-hash?${new URLSearchParams({ src: params.src })}`,
+      `/img-hash?${new URLSearchParams({
+        src: params.src,
+        algorithm: "blurhash",
+      })}`,
+    ];
+  }, [params]);
+
+  React.useEffect(() => {
+    const formData = new FormData();
+    urls.forEach((url) => formData.append("url", url));
+    signer.submit(formData, { method: "post" });
+  }, [urls]);
+
+  React.useEffect(() => {
+    if (!signer.data) {
+      return;
+    }
+    const [imageUrl, jsonUrl, thumbHashUrl, blurHashUrl] = signer.data.urls;
+    let objectUrl = "";
+    Promise.all([
+      fetch(imageUrl).then((response) => response.blob()),
+      fetch(jsonUrl).then((response) => response.json()),
+      fetch(thumbHashUrl).then((response) => response.json()),
+      fetch(blurHashUrl).then((response) => response.json()),
+    ])
+      .then(([image, json, thumbHash, blurHash]) => {
+        objectUrl = URL.createObjectURL(image);
+        setItems([
+          { label: "Blurred image", url: objectUrl, size: image.size },
+          {
+            label: "Data URI (JSON)",
+            url: json.dataUri,
+            size: json.size,
+            detail: `${json.dataUri.length} characters inlined`,
+          },
+          {
+            label: "ThumbHash",
+            url: thumbHash.dataUri,
+            size: thumbHash.size,
+            detail: thumbHash.hash,
+          },
+          {
+            label: "BlurHash",
+            url: blurHash.dataUri,
+            size: blurHash.size,
+            detail: blurHash.hash,
+          },
+        ]);
+      })
+      .catch(() => setItems([]));
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [signer.data]);
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-5 gap-6 p-6">
+      {[{ label: "Full image", url: fullUrl, size: fullSize }, ...items].map(
+        (item: PlaceholderPreviewItem) => (
+          <div key={item.label} className="space-y-2">
+            <div className="h-[160px] bg-gray-100 rounded-md overflow-hidden">
+              <img
+                src={item.url}
+                alt={item.label}
+                className="w-full h-full object-cover"
+              />
+            </div>
+            <p className="text-base font-medium text-gray-800">{item.label}</p>
+            <p className="text-base text-indigo-600">{item.size} bytes</p>
+            {item.detail && (
+              <p className="text-sm text-gray-500 break-all">{item.detail}</p>
+            )}
+          </div>
+        )
+      )}
+    </div>
+  );
 }
 
 // Define interface for image parameters
 interface ImageParams {
   src: string;
+  preset: string;
   width: number | null;
   height: number | null;
   format: string;
   endpoint: string;
+  fit: string;
+  position: string;
+  background: string;
+  withoutEnlargement: boolean;
+  crop: string;
+  cropAfterResize: boolean;
+  trim: boolean;
+  flip: boolean;
+  flop: boolean;
+  rotate: number | null;
+  blur: number | null;
+  sharpen: number | null;
+  grayscale: boolean;
+  tint: string;
+  brightness: number | null;
+  saturation: number | null;
+  hue: number | null;
+  gamma: number | null;
+  negate: boolean;
+  normalize: boolean;
+  overlay: string;
+  text: string;
+  textColor: string;
+  overlayGravity: string;
+  overlayOffset: string;
+  overlayOpacity: number | null;
+  overlaySize: number | null;
+  overlayTile: boolean;
+  quality: number | null;
+  effort: number | null;
+  lossless: boolean;
+  nearLossless: boolean;
+  chromaSubsampling: string;
+  progressive: boolean;
+  frame: number | null;
+  loop: number | null;
+  delay: string;
+  autoOrient: boolean;
+  metadata: string;
+  icc: string;
+  keepGps: boolean;
+}
+
+interface MemoryPeak {
+  rss: number;
+  external: number;
+  arrayBuffers: number;
+}
+
+// Metadata the /img-info route reports for an image
+interface ImageInfo {
+  format: string | null;
+  contentType: string | null;
+  width: number | null;
+  height: number | null;
+  channels: number | null;
+  space: string | null;
+  depth: string | null;
+  density: number | null;
+  hasAlpha: boolean;
+  isProgressive: boolean;
+  orientation: number | null;
+  iccProfile: { description: string | null; size: number } | null;
+  hasExif: boolean;
+  pages: number;
+  size: number;
 }
 
 interface ImageStats {
   width: number;
   height: number;
   fileSize: number;
-  memoryUsage: string;
+  // Peak memory increase on the server, null if the stats weren't found
+  peakMemory: MemoryPeak | null;
+  // Server durations in milliseconds by phase, including the `total`
+  timings: Record<string, number>;
+  // Format the server responded with, e.g. the one negotiated for "auto"
+  format: string;
+  // Animation frames of the output
+  frames: number;
+  // Operations in the order the server applied them
+  operations: string;
+  source: ImageInfo;
+  output: ImageInfo;
 }
 
 // Define interface for image history item
 interface ImageHistoryItem {
   timestamp: number;
-  requestedParams: {
-    src: string;
-    width: number | null;
-    height: number | null;
-    format: string;
-    endpoint: string;
-  };
+  requestedParams: ImageParams;
   imageStats: ImageStats;
 }
 
+function describeInfo(info: ImageInfo) {
+  return {
+    Format: info.format ?? "unknown",
+    "Colour space": info.space ?? "unknown",
+    Channels: `${info.channels ?? "?"}${info.hasAlpha ? " (alpha)" : ""}`,
+    "ICC profile": info.iccProfile
+      ? info.iccProfile.description ?? `${info.iccProfile.size} bytes`
+      : "none",
+    "EXIF orientation":
+      info.orientation === null ? "none" : String(info.orientation),
+    Pages: String(info.pages),
+  };
+}
+
+// Rows of label, source value and output value for the metadata card
+function getMetadataRows(source: ImageInfo, output: ImageInfo) {
+  const outputValues = describeInfo(output);
+  return Object.entries(describeInfo(source)).map(
+    ([label, value]) =>
+      [label, value, outputValues[label as keyof typeof outputValues]] as const
+  );
+}
+
+// The params a preset sets, as they would appear in a query string
+function describePreset(name: PresetName) {
+  return Object.entries(presets[name].params)
+    .map(([param, value]) => `${param}=${value}`)
+    .join("&");
+}
+
+// Mirrors the Accept header browsers send for <img> requests so that
+// The source defaults to the first available one
 const defaultParams: ImageParams = {
-  src: "/cat.png",
+  src: "",
+  preset: "",
   width: null,
   height: null,
   format: "original",
   endpoint: "img",
+  fit: "",
+  position: "",
+  background: "",
+  withoutEnlargement: false,
+  crop: "",
+  cropAfterResize: false,
+  trim: false,
+  flip: false,
+  flop: false,
+  rotate: null,
+  blur: null,
+  sharpen: null,
+  grayscale: false,
+  tint: "",
+  brightness: null,
+  saturation: null,
+  hue: null,
+  gamma: null,
+  negate: false,
+  normalize: false,
+  overlay: "",
+  text: "",
+  textColor: "",
+  overlayGravity: "",
+  overlayOffset: "",
+  overlayOpacity: null,
+  overlaySize: null,
+  overlayTile: false,
+  quality: null,
+  effort: null,
+  lossless: false,
+  nearLossless: false,
+  chromaSubsampling: "",
+  progressive: false,
+  frame: null,
+  loop: null,
+  delay: "",
+  autoOrient: true,
+  metadata: "",
+  icc: "",
+  keepGps: false,
 };
 
-export default function Home() {
-  const [imageParams, setImageParams] = useState(defaultParams);
+const numericParams = [
+  "width",
+  "height",
+  "rotate",
+  "blur",
+  "sharpen",
+  "brightness",
+  "saturation",
+  "hue",
+  "gamma",
+  "overlayOpacity",
+  "overlaySize",
+  "quality",
+  "effort",
+  "frame",
+  "loop",
+];
+
+export default function Home({ loaderData }: Route.ComponentProps) {
+  const [imageParams, setImageParams] = useState(() => ({
+    ...defaultParams,
+    src: loaderData.sources[0]?.src ?? "",
+  }));
   const [imageLoading, setImageLoading] = useState(false);
   const [imageHistory, setImageHistory] = useState<ImageHistoryItem[]>([]);
   const [currentUrl, setCurrentUrl] = useState<string>("");
+  // Object URL of the loaded preview, the image is downloaded only once
+  const [displayUrl, setDisplayUrl] = useState<string>("");
+  const signer = useFetcher<typeof action>();
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
-  const imgRef = useRef<HTMLImageElement>(null);
 
   const handleInputChange = (
     e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>
   ) => {
     const { name, value } = e.target;
 
-    // Handle width and height specially
-    if (name === "width" || name === "height") {
+    // Handle checkboxes and numeric fields specially
+    if (e.target instanceof HTMLInputElement && e.target.type === "checkbox") {
+      setImageParams({
+        ...imageParams,
+        [name]: e.target.checked,
+      });
+    } else if (numericParams.includes(name)) {
       // If value is empty, set as null
       const numericValue = value === "" ? null : Number(value);
       setImageParams({
@@ -92,12 +541,23 @@ export default function Home() {
     }
   };
 
+  // Encoder options that apply to the selected format
+  const encoder = useMemo(
+    () => getEncoderSupport(imageParams.format),
+    [imageParams.format]
+  );
+
   const previewUrl = useMemo(() => {
     const params = new URLSearchParams();
 
     // Always include the source
     params.append("src", imageParams.src);
 
+    // The other params override the preset's
+    if (imageParams.preset) {
+      params.append("preset", imageParams.preset);
+    }
+
     // Only include width if it has a value
     if (imageParams.width) {
       params.append("w", imageParams.width.toString());
@@ -113,8 +573,147 @@ export default function Home() {
       params.append("format", imageParams.format);
     }
 
+    // Only include resize options that differ from the defaults
+    if (imageParams.fit) {
+      params.append("fit", imageParams.fit);
+    }
+    if (imageParams.position) {
+      params.append("position", imageParams.position);
+    }
+    if (imageParams.background) {
+      params.append("background", imageParams.background.replace("#", ""));
+    }
+    if (imageParams.withoutEnlargement) {
+      params.append("withoutEnlargement", "true");
+    }
+
+    if (imageParams.frame !== null) {
+      params.append("frame", imageParams.frame.toString());
+    }
+
+    // Geometry operations, see the order in the X-Image-Operations header
+    if (imageParams.crop) {
+      params.append("crop", imageParams.crop);
+      if (imageParams.cropAfterResize) {
+        params.append("cropAfterResize", "true");
+      }
+    }
+    if (imageParams.trim) {
+      params.append("trim", "true");
+    }
+    if (imageParams.flip) {
+      params.append("flip", "true");
+    }
+    if (imageParams.flop) {
+      params.append("flop", "true");
+    }
+    if (imageParams.rotate) {
+      params.append("rotate", imageParams.rotate.toString());
+    }
+
+    // Effects, the server applies them in a fixed order
+    if (imageParams.blur !== null) {
+      params.append("blur", imageParams.blur.toString());
+    }
+    if (imageParams.sharpen !== null) {
+      params.append("sharpen", imageParams.sharpen.toString());
+    }
+    if (imageParams.grayscale) {
+      params.append("grayscale", "true");
+    }
+    if (imageParams.tint) {
+      params.append("tint", imageParams.tint.replace("#", ""));
+    }
+    if (
+      imageParams.brightness !== null ||
+      imageParams.saturation !== null ||
+      imageParams.hue !== null
+    ) {
+      const modulate = [
+        imageParams.brightness ?? 1,
+        imageParams.saturation ?? 1,
+        imageParams.hue ?? 0,
+      ];
+      params.append("modulate", modulate.join(","));
+    }
+    if (imageParams.gamma !== null) {
+      params.append("gamma", imageParams.gamma.toString());
+    }
+    if (imageParams.negate) {
+      params.append("negate", "true");
+    }
+    if (imageParams.normalize) {
+      params.append("normalize", "true");
+    }
+
+    // Either an image or a text is composited over the output
+    if (imageParams.overlay || imageParams.text) {
+      if (imageParams.overlay) {
+        params.append("overlay", imageParams.overlay);
+      } else {
+        params.append("text", imageParams.text);
+        if (imageParams.textColor) {
+          params.append("textColor", imageParams.textColor.replace("#", ""));
+        }
+      }
+      if (imageParams.overlayGravity) {
+        params.append("overlayGravity", imageParams.overlayGravity);
+      }
+      if (imageParams.overlayTile) {
+        params.append("overlayTile", "true");
+      } else if (imageParams.overlayOffset) {
+        params.append("overlayOffset", imageParams.overlayOffset);
+      }
+      if (imageParams.overlayOpacity !== null) {
+        params.append("overlayOpacity", imageParams.overlayOpacity.toString());
+      }
+      if (imageParams.overlaySize !== null) {
+        params.append("overlaySize", imageParams.overlaySize.toString());
+      }
+    }
+
+    // Auto-orientation is on by default, metadata is stripped by default
+    if (!imageParams.autoOrient) {
+      params.append("autoOrient", "false");
+    }
+    if (imageParams.metadata) {
+      params.append("metadata", imageParams.metadata);
+    }
+    if (imageParams.icc) {
+      params.append("icc", imageParams.icc);
+    }
+    if (imageParams.metadata === "keep" && imageParams.keepGps) {
+      params.append("keepGps", "true");
+    }
+
+    // Only include encoder options the selected format supports
+    if (encoder?.quality && imageParams.quality) {
+      params.append("q", imageParams.quality.toString());
+    }
+    if (encoder?.effort && imageParams.effort !== null) {
+      params.append("effort", imageParams.effort.toString());
+    }
+    if (encoder?.lossless && imageParams.lossless) {
+      params.append("lossless", "true");
+    }
+    if (encoder?.nearLossless && imageParams.nearLossless) {
+      params.append("nearLossless", "true");
+    }
+    if (encoder?.chromaSubsampling && imageParams.chromaSubsampling) {
+      params.append("chromaSubsampling", imageParams.chromaSubsampling);
+    }
+    if (encoder?.progressive && imageParams.progressive) {
+      params.append("progressive", "true");
+    }
+    if (encoder?.animation && imageParams.loop !== null) {
+      params.append("loop", imageParams.loop.toString());
+    }
+    if (encoder?.animation && imageParams.delay) {
+      params.append("delay", imageParams.delay);
+    }
+
     return `/${imageParams.endpoint}?${params.toString()}`;
-  }, [imageParams]);
+  }, [imageParams, encoder]);
 
   const loadImage = () => {
     // If the URL hasn't changed, don't reload the image
@@ -131,40 +730,70 @@ export default function Home() {
     setErrorMessage(null);
     setCurrentUrl(previewUrl);
     setImageLoading(true);
+    signer.submit({ url: previewUrl }, { method: "post" });
   };
 
-  async function fetchImageStats() {
-    const response = await fetch(previewUrl, {
+  async function fetchPreview(signedUrl: string) {
+    const response = await fetch(signedUrl, {
       method: "GET",
       headers: {
+        Accept: imageAcceptHeader,
         "Cache-Control": "no-cache",
         Pragma: "no-cache",
+        [REFRESH_HEADER]: "1",
       },
     });
-    setImageLoading(false);
     if (!response.ok) {
+      setImageLoading(false);
       setErrorMessage(
         response.statusText || `HTTP error! Status: ${response.status}`
       );
       return;
     }
 
-    // Get memory usage from header
-    const memoryUsage = response.headers.get("X-Memory-Usage");
-    if (!memoryUsage) {
-      setErrorMessage("Memory usage header not found");
+    const requestId = response.headers.get("X-Request-Id");
+    if (!requestId) {
+      setImageLoading(false);
+      setErrorMessage("Request id header not found");
       return;
     }
-    if (!imgRef.current) {
-      setErrorMessage("Image not found");
+    const blob = await response.blob();
+    setDisplayUrl(URL.createObjectURL(blob));
+
+    // The server keeps sampling while the body streams, so the final peak
+    // values are fetched once it has been received completely. The metadata
+    // comes from the cached variant, the image isn't downloaded again.
+    const [statsResponse, infoResponse] = await Promise.all([
+      fetch(`/img-stats?id=${requestId}`),
+      fetch(`/img-info?${new URLSearchParams({ url: signedUrl })}`, {
+        headers: { Accept: imageAcceptHeader },
+      }),
+    ]);
+    setImageLoading(false);
+    if (!infoResponse.ok) {
+      setErrorMessage(
+        infoResponse.statusText || `HTTP error! Status: ${infoResponse.status}`
+      );
       return;
     }
-    const blob = await response.blob();
-    const stats = {
-      width: imgRef.current.naturalWidth,
-      height: imgRef.current.naturalHeight,
-      fileSize: blob.size,
-      memoryUsage,
+    const serverStats = statsResponse.ok ? await statsResponse.json() : null;
+    const info: { source: ImageInfo; output: ImageInfo } =
+      await infoResponse.json();
+
+    const stats: ImageStats = {
+      width: info.output.width ?? 0,
+      height: info.output.height ?? 0,
+      fileSize: info.output.size,
+      peakMemory: serverStats?.peakMemory ?? null,
+      timings: serverStats?.timings ?? {},
+      frames: info.output.pages,
+      operations: response.headers.get("X-Image-Operations") ?? "",
+      format: (response.headers.get("Content-Type") ?? "").replace(
+        "image/",
+        ""
+      ),
+      source: info.source,
+      output: info.output,
     };
 
     // Add to history
@@ -184,9 +813,25 @@ export default function Home() {
     }
   }, [currentUrl]);
 
+  // Load the image once the server has signed its URL
+  React.useEffect(() => {
+    if (signer.data) {
+      fetchPreview(signer.data.urls[0]).catch((error) => {
+        setImageLoading(false);
+        setErrorMessage(String(error));
+      });
+    }
+  }, [signer.data]);
+
+  React.useEffect(() => {
+    return () => URL.revokeObjectURL(displayUrl);
+  }, [displayUrl]);
+
   // Initialize with the default image on mount
   React.useEffect(() => {
-    loadImage();
+    if (imageParams.src) {
+      loadImage();
+    }
   }, []);
 
   const currentImageStats = imageHistory[0]?.imageStats;
@@ -200,9 +845,25 @@ export default function Home() {
           <div className="space-y-6">
             {/* Preview URL - Moved to top */}
             <div className="p-6 bg-indigo-50 rounded-lg border border-indigo-100 mb-8">
-              <h3 className="text-xl font-semibold text-indigo-800 mb-3">
-                URL Preview
-              </h3>
+              <div className="flex items-center justify-between mb-3">
+                <h3 className="text-xl font-semibold text-indigo-800">
+                  URL Preview
+                </h3>
+                <div className="flex gap-4">
+                  <Link
+                    to="/compare"
+                    className="text-lg text-indigo-600 hover:underline"
+                  >
+                    Compare
+                  </Link>
+                  <Link
+                    to="/benchmark"
+                    className="text-lg text-indigo-600 hover:underline"
+                  >
+                    Benchmark
+                  </Link>
+                </div>
+              </div>
               <code className="block text-xl bg-white p-4 rounded-md overflow-x-auto border border-indigo-100 text-indigo-900 font-medium">
                 {previewUrl}
               </code>
@@ -223,6 +884,76 @@ export default function Home() {
                   onChange={handleInputChange}
                   className="w-full px-3 py-3 text-xl border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 bg-white text-gray-800"
                 />
+                <select
+                  aria-label="Available sources"
+                  value={
+                    loaderData.sources.some(
+                      (source) => source.src === imageParams.src
+                    )
+                      ? imageParams.src
+                      : ""
+                  }
+                  onChange={handleInputChange}
+                  name="src"
+                  className="w-full mt-2 px-3 py-3 text-xl border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 bg-white text-gray-800"
+                >
+                  <option value="" disabled>
+                    {loaderData.sources.length > 0
+                      ? "Choose an available source"
+                      : "No sources yet, upload an image"}
+                  </option>
+                  {loaderData.sources.map((source) => (
+                    <option key={source.src} value={source.src}>
+                      {source.src} ({formatSize(source.size)}
+                      {source.expiresAt &&
+                        `, expires in ${Math.max(
+                          Math.ceil(
+                            (source.expiresAt.getTime() - Date.now()) / 60000
+                          ),
+                          1
+                        )} min`}
+                      )
+                    </option>
+                  ))}
+                </select>
+                <div className="mt-2">
+                  <UploadDropzone
+                    onUpload={(src) =>
+                      setImageParams((params) => ({ ...params, src }))
+                    }
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label
+                  htmlFor="preset"
+                  className="block text-lg font-medium text-gray-800 mb-1"
+                >
+                  Preset
+                </label>
+                <select
+                  id="preset"
+                  name="preset"
+                  value={imageParams.preset}
+                  onChange={handleInputChange}
+                  className="w-full px-3 py-3 text-xl border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 bg-white text-gray-800"
+                >
+                  <option value="">none</option>
+                  {Object.entries(presets).map(([name, preset]) => (
+                    <option key={name} value={name}>
+                      {name}: {preset.description}
+                    </option>
+                  ))}
+                </select>
+                {imageParams.preset && (
+                  <p className="mt-1 text-base text-gray-500">
+                    {describePreset(imageParams.preset as PresetName)}
+                    {loaderData.presetsOnly
+                      ? ". Only presets are allowed, the other options are rejected"
+                      : ". The options below override it"}
+                  </p>
+                )}
               </div>
 
               <div>
@@ -261,6 +992,106 @@ export default function Home() {
                 />
               </div>
 
+              <div>
+                <label
+                  htmlFor="frame"
+                  className="block text-lg font-medium text-gray-800 mb-1"
+                >
+                  Frame (animated sources)
+                </label>
+                <input
+                  type="number"
+                  id="frame"
+                  name="frame"
+                  value={imageParams.frame === null ? "" : imageParams.frame}
+                  onChange={handleInputChange}
+                  min="0"
+                  placeholder="all frames"
+                  className="w-full px-3 py-3 text-xl border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 bg-white text-gray-800"
+                />
+              </div>
+
+              <div>
+                <label
+                  htmlFor="fit"
+                  className="block text-lg font-medium text-gray-800 mb-1"
+                >
+                  Fit
+                </label>
+                <select
+                  id="fit"
+                  name="fit"
+                  value={imageParams.fit}
+                  onChange={handleInputChange}
+                  className="w-full px-3 py-3 text-xl border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 bg-white text-gray-800"
+                >
+                  <option value="">default (cover)</option>
+                  {fits.map((fit) => (
+                    <option key={fit} value={fit}>
+                      {fit}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label
+                  htmlFor="position"
+                  className="block text-lg font-medium text-gray-800 mb-1"
+                >
+                  Position
+                </label>
+                <select
+                  id="position"
+                  name="position"
+                  value={imageParams.position}
+                  onChange={handleInputChange}
+                  className="w-full px-3 py-3 text-xl border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 bg-white text-gray-800"
+                >
+                  <option value="">default (center)</option>
+                  {positions.map((position) => (
+                    <option key={position} value={position}>
+                      {position}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label
+                  htmlFor="background"
+                  className="block text-lg font-medium text-gray-800 mb-1"
+                >
+                  Background (fit=contain and rotate)
+                </label>
+                <input
+                  type="text"
+                  id="background"
+                  name="background"
+                  value={imageParams.background}
+                  onChange={handleInputChange}
+                  placeholder="#000000"
+                  className="w-full px-3 py-3 text-xl border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 bg-white text-gray-800"
+                />
+              </div>
+
+              <div className="flex items-center gap-3">
+                <input
+                  type="checkbox"
+                  id="withoutEnlargement"
+                  name="withoutEnlargement"
+                  checked={imageParams.withoutEnlargement}
+                  onChange={handleInputChange}
+                  className="h-5 w-5 accent-indigo-600"
+                />
+                <label
+                  htmlFor="withoutEnlargement"
+                  className="text-lg font-medium text-gray-800"
+                >
+                  Don't enlarge images smaller than the requested size
+                </label>
+              </div>
+
               <div>
                 <label
                   htmlFor="format"
@@ -275,10 +1106,719 @@ export default function Home() {
                   onChange={handleInputChange}
                   className="w-full px-3 py-3 text-xl border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 bg-white text-gray-800"
                 >
-                  <option value="webp">webp</option>
-                  <option value="avif">avif</option>
+                  <option value="auto">auto</option>
+                  {loaderData.formats.map((format) => (
+                    <option key={format} value={format}>
+                      {format}
+                    </option>
+                  ))}
                   <option value="original">original</option>
                 </select>
+                {imageHistory[0]?.requestedParams.format === "auto" && (
+                  <p className="mt-1 text-base text-gray-500">
+                    Negotiated format: {imageHistory[0].imageStats.format}
+                  </p>
+                )}
+              </div>
+
+              {encoder && (
+                <div className="space-y-4 p-4 bg-gray-50 rounded-md border border-gray-200">
+                  <p className="text-lg font-medium text-gray-800">
+                    Encoder Options ({imageParams.format})
+                  </p>
+                  {encoder.quality && (
+                    <div>
+                      <label
+                        htmlFor="quality"
+                        className="block text-lg font-medium text-gray-800 mb-1"
+                      >
+                        Quality
+                      </label>
+                      <input
+                        type="number"
+                        id="quality"
+                        name="quality"
+                        value={
+                          imageParams.quality === null
+                            ? ""
+                            : imageParams.quality
+                        }
+                        onChange={handleInputChange}
+                        min="1"
+                        max="100"
+                        placeholder="default"
+                        className="w-full px-3 py-3 text-xl border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 bg-white text-gray-800"
+                      />
+                    </div>
+                  )}
+                  {encoder.effort && (
+                    <div>
+                      <label
+                        htmlFor="effort"
+                        className="block text-lg font-medium text-gray-800 mb-1"
+                      >
+                        Effort ({encoder.effort[0]}–{encoder.effort[1]})
+                      </label>
+                      <input
+                        type="number"
+                        id="effort"
+                        name="effort"
+                        value={
+                          imageParams.effort === null ? "" : imageParams.effort
+                        }
+                        onChange={handleInputChange}
+                        min={encoder.effort[0]}
+                        max={encoder.effort[1]}
+                        placeholder="default"
+                        className="w-full px-3 py-3 text-xl border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 bg-white text-gray-800"
+                      />
+                    </div>
+                  )}
+                  {encoder.chromaSubsampling && (
+                    <div>
+                      <label
+                        htmlFor="chromaSubsampling"
+                        className="block text-lg font-medium text-gray-800 mb-1"
+                      >
+                        Chroma Subsampling
+                      </label>
+                      <select
+                        id="chromaSubsampling"
+                        name="chromaSubsampling"
+                        value={imageParams.chromaSubsampling}
+                        onChange={handleInputChange}
+                        className="w-full px-3 py-3 text-xl border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 bg-white text-gray-800"
+                      >
+                        <option value="">default</option>
+                        {chromaSubsamplings.map((chromaSubsampling) => (
+                          <option
+                            key={chromaSubsampling}
+                            value={chromaSubsampling}
+                          >
+                            {chromaSubsampling}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  )}
+                  {encoder.animation && (
+                    <div className="grid grid-cols-2 gap-4">
+                      <div>
+                        <label
+                          htmlFor="loop"
+                          className="block text-lg font-medium text-gray-800 mb-1"
+                        >
+                          Loop
+                        </label>
+                        <input
+                          type="number"
+                          id="loop"
+                          name="loop"
+                          value={
+                            imageParams.loop === null ? "" : imageParams.loop
+                          }
+                          onChange={handleInputChange}
+                          min="0"
+                          placeholder="0 = forever"
+                          className="w-full px-3 py-3 text-xl border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 bg-white text-gray-800"
+                        />
+                      </div>
+                      <div>
+                        <label
+                          htmlFor="delay"
+                          className="block text-lg font-medium text-gray-800 mb-1"
+                        >
+                          Delay (ms)
+                        </label>
+                        <input
+                          type="text"
+                          id="delay"
+                          name="delay"
+                          value={imageParams.delay}
+                          onChange={handleInputChange}
+                          placeholder="100 or 100,50,50"
+                          className="w-full px-3 py-3 text-xl border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 bg-white text-gray-800"
+                        />
+                      </div>
+                    </div>
+                  )}
+                  {(
+                    [
+                      ["lossless", "Lossless"],
+                      ["nearLossless", "Near lossless"],
+                      ["progressive", "Progressive / interlaced"],
+                    ] as const
+                  )
+                    .filter(([name]) => encoder[name])
+                    .map(([name, label]) => (
+                      <div key={name} className="flex items-center gap-3">
+                        <input
+                          type="checkbox"
+                          id={name}
+                          name={name}
+                          checked={imageParams[name]}
+                          onChange={handleInputChange}
+                          className="h-5 w-5 accent-indigo-600"
+                        />
+                        <label
+                          htmlFor={name}
+                          className="text-lg font-medium text-gray-800"
+                        >
+                          {label}
+                        </label>
+                      </div>
+                    ))}
+                </div>
+              )}
+
+              <div className="space-y-4 p-4 bg-gray-50 rounded-md border border-gray-200">
+                <p className="text-lg font-medium text-gray-800">
+                  Crop & Rotate
+                </p>
+                <div>
+                  <label
+                    htmlFor="crop"
+                    className="block text-lg font-medium text-gray-800 mb-1"
+                  >
+                    Crop (x,y,width,height)
+                  </label>
+                  <input
+                    type="text"
+                    id="crop"
+                    name="crop"
+                    value={imageParams.crop}
+                    onChange={handleInputChange}
+                    placeholder="0,0,200,200"
+                    className="w-full px-3 py-3 text-xl border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 bg-white text-gray-800"
+                  />
+                </div>
+                {imageParams.crop && (
+                  <div className="flex items-center gap-3">
+                    <input
+                      type="checkbox"
+                      id="cropAfterResize"
+                      name="cropAfterResize"
+                      checked={imageParams.cropAfterResize}
+                      onChange={handleInputChange}
+                      className="h-5 w-5 accent-indigo-600"
+                    />
+                    <label
+                      htmlFor="cropAfterResize"
+                      className="text-lg font-medium text-gray-800"
+                    >
+                      Crop after resizing
+                    </label>
+                  </div>
+                )}
+                <div className="flex items-center gap-3">
+                  <input
+                    type="checkbox"
+                    id="trim"
+                    name="trim"
+                    checked={imageParams.trim}
+                    onChange={handleInputChange}
+                    className="h-5 w-5 accent-indigo-600"
+                  />
+                  <label
+                    htmlFor="trim"
+                    className="text-lg font-medium text-gray-800"
+                  >
+                    Trim borders
+                  </label>
+                </div>
+                <div className="flex items-center gap-3">
+                  <input
+                    type="checkbox"
+                    id="flip"
+                    name="flip"
+                    checked={imageParams.flip}
+                    onChange={handleInputChange}
+                    className="h-5 w-5 accent-indigo-600"
+                  />
+                  <label
+                    htmlFor="flip"
+                    className="text-lg font-medium text-gray-800"
+                  >
+                    Flip vertically
+                  </label>
+                </div>
+                <div className="flex items-center gap-3">
+                  <input
+                    type="checkbox"
+                    id="flop"
+                    name="flop"
+                    checked={imageParams.flop}
+                    onChange={handleInputChange}
+                    className="h-5 w-5 accent-indigo-600"
+                  />
+                  <label
+                    htmlFor="flop"
+                    className="text-lg font-medium text-gray-800"
+                  >
+                    Flop horizontally
+                  </label>
+                </div>
+                <div>
+                  <label
+                    htmlFor="rotate"
+                    className="block text-lg font-medium text-gray-800 mb-1"
+                  >
+                    Rotate (degrees, clockwise)
+                  </label>
+                  <input
+                    type="number"
+                    id="rotate"
+                    name="rotate"
+                    value={
+                      imageParams.rotate === null ? "" : imageParams.rotate
+                    }
+                    onChange={handleInputChange}
+                    min="-360"
+                    max="360"
+                    placeholder="0"
+                    className="w-full px-3 py-3 text-xl border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 bg-white text-gray-800"
+                  />
+                  <p className="mt-1 text-base text-gray-500">
+                    Angles other than multiples of 90 fill the corners with the
+                    background colour
+                  </p>
+                </div>
+              </div>
+
+              <div className="space-y-4 p-4 bg-gray-50 rounded-md border border-gray-200">
+                <p className="text-lg font-medium text-gray-800">Effects</p>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label
+                      htmlFor="blur"
+                      className="block text-lg font-medium text-gray-800 mb-1"
+                    >
+                      Blur (sigma)
+                    </label>
+                    <input
+                      type="number"
+                      id="blur"
+                      name="blur"
+                      value={imageParams.blur === null ? "" : imageParams.blur}
+                      onChange={handleInputChange}
+                      min="0.3"
+                      max="1000"
+                      step="0.1"
+                      placeholder="none"
+                      className="w-full px-3 py-3 text-xl border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 bg-white text-gray-800"
+                    />
+                  </div>
+                  <div>
+                    <label
+                      htmlFor="sharpen"
+                      className="block text-lg font-medium text-gray-800 mb-1"
+                    >
+                      Sharpen (sigma)
+                    </label>
+                    <input
+                      type="number"
+                      id="sharpen"
+                      name="sharpen"
+                      value={
+                        imageParams.sharpen === null ? "" : imageParams.sharpen
+                      }
+                      onChange={handleInputChange}
+                      min="0.01"
+                      max="10"
+                      step="0.1"
+                      placeholder="none"
+                      className="w-full px-3 py-3 text-xl border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 bg-white text-gray-800"
+                    />
+                  </div>
+                  <div>
+                    <label
+                      htmlFor="brightness"
+                      className="block text-lg font-medium text-gray-800 mb-1"
+                    >
+                      Brightness
+                    </label>
+                    <input
+                      type="number"
+                      id="brightness"
+                      name="brightness"
+                      value={
+                        imageParams.brightness === null
+                          ? ""
+                          : imageParams.brightness
+                      }
+                      onChange={handleInputChange}
+                      min="0"
+                      max="10"
+                      step="0.1"
+                      placeholder="1"
+                      className="w-full px-3 py-3 text-xl border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 bg-white text-gray-800"
+                    />
+                  </div>
+                  <div>
+                    <label
+                      htmlFor="saturation"
+                      className="block text-lg font-medium text-gray-800 mb-1"
+                    >
+                      Saturation
+                    </label>
+                    <input
+                      type="number"
+                      id="saturation"
+                      name="saturation"
+                      value={
+                        imageParams.saturation === null
+                          ? ""
+                          : imageParams.saturation
+                      }
+                      onChange={handleInputChange}
+                      min="0"
+                      max="10"
+                      step="0.1"
+                      placeholder="1"
+                      className="w-full px-3 py-3 text-xl border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 bg-white text-gray-800"
+                    />
+                  </div>
+                  <div>
+                    <label
+                      htmlFor="hue"
+                      className="block text-lg font-medium text-gray-800 mb-1"
+                    >
+                      Hue (degrees)
+                    </label>
+                    <input
+                      type="number"
+                      id="hue"
+                      name="hue"
+                      value={imageParams.hue === null ? "" : imageParams.hue}
+                      onChange={handleInputChange}
+                      min="-360"
+                      max="360"
+                      step="1"
+                      placeholder="0"
+                      className="w-full px-3 py-3 text-xl border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 bg-white text-gray-800"
+                    />
+                  </div>
+                  <div>
+                    <label
+                      htmlFor="gamma"
+                      className="block text-lg font-medium text-gray-800 mb-1"
+                    >
+                      Gamma
+                    </label>
+                    <input
+                      type="number"
+                      id="gamma"
+                      name="gamma"
+                      value={
+                        imageParams.gamma === null ? "" : imageParams.gamma
+                      }
+                      onChange={handleInputChange}
+                      min="1"
+                      max="3"
+                      step="0.1"
+                      placeholder="none"
+                      className="w-full px-3 py-3 text-xl border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 bg-white text-gray-800"
+                    />
+                  </div>
+                </div>
+                <div>
+                  <label
+                    htmlFor="tint"
+                    className="block text-lg font-medium text-gray-800 mb-1"
+                  >
+                    Tint
+                  </label>
+                  <input
+                    type="text"
+                    id="tint"
+                    name="tint"
+                    value={imageParams.tint}
+                    onChange={handleInputChange}
+                    placeholder="#704214"
+                    className="w-full px-3 py-3 text-xl border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 bg-white text-gray-800"
+                  />
+                </div>
+                {(
+                  [
+                    ["grayscale", "Grayscale"],
+                    ["negate", "Negate colours"],
+                    ["normalize", "Normalize contrast"],
+                  ] as const
+                ).map(([name, label]) => (
+                  <div key={name} className="flex items-center gap-3">
+                    <input
+                      type="checkbox"
+                      id={name}
+                      name={name}
+                      checked={imageParams[name]}
+                      onChange={handleInputChange}
+                      className="h-5 w-5 accent-indigo-600"
+                    />
+                    <label
+                      htmlFor={name}
+                      className="text-lg font-medium text-gray-800"
+                    >
+                      {label}
+                    </label>
+                  </div>
+                ))}
+              </div>
+
+              <div className="space-y-4 p-4 bg-gray-50 rounded-md border border-gray-200">
+                <p className="text-lg font-medium text-gray-800">Overlay</p>
+                <div>
+                  <label
+                    htmlFor="overlay"
+                    className="block text-lg font-medium text-gray-800 mb-1"
+                  >
+                    Image
+                  </label>
+                  <select
+                    id="overlay"
+                    name="overlay"
+                    value={imageParams.overlay}
+                    onChange={handleInputChange}
+                    className="w-full px-3 py-3 text-xl border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 bg-white text-gray-800"
+                  >
+                    <option value="">none</option>
+                    {loaderData.sources.map((source) => (
+                      <option key={source.src} value={source.src}>
+                        {source.src}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                {!imageParams.overlay && (
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <label
+                        htmlFor="text"
+                        className="block text-lg font-medium text-gray-800 mb-1"
+                      >
+                        Text
+                      </label>
+                      <input
+                        type="text"
+                        id="text"
+                        name="text"
+                        value={imageParams.text}
+                        onChange={handleInputChange}
+                        placeholder="© Example"
+                        className="w-full px-3 py-3 text-xl border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 bg-white text-gray-800"
+                      />
+                    </div>
+                    <div>
+                      <label
+                        htmlFor="textColor"
+                        className="block text-lg font-medium text-gray-800 mb-1"
+                      >
+                        Text colour
+                      </label>
+                      <input
+                        type="text"
+                        id="textColor"
+                        name="textColor"
+                        value={imageParams.textColor}
+                        onChange={handleInputChange}
+                        placeholder="#ffffff"
+                        className="w-full px-3 py-3 text-xl border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 bg-white text-gray-800"
+                      />
+                    </div>
+                  </div>
+                )}
+                {(imageParams.overlay || imageParams.text) && (
+                  <>
+                    <div className="grid grid-cols-2 gap-4">
+                      <div>
+                        <label
+                          htmlFor="overlayGravity"
+                          className="block text-lg font-medium text-gray-800 mb-1"
+                        >
+                          Gravity
+                        </label>
+                        <select
+                          id="overlayGravity"
+                          name="overlayGravity"
+                          value={imageParams.overlayGravity}
+                          onChange={handleInputChange}
+                          className="w-full px-3 py-3 text-xl border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 bg-white text-gray-800"
+                        >
+                          <option value="">default (bottom-right)</option>
+                          {gravities.map((gravity) => (
+                            <option key={gravity} value={gravity}>
+                              {gravity}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                      <div>
+                        <label
+                          htmlFor="overlayOffset"
+                          className="block text-lg font-medium text-gray-800 mb-1"
+                        >
+                          Offset (x,y)
+                        </label>
+                        <input
+                          type="text"
+                          id="overlayOffset"
+                          name="overlayOffset"
+                          value={imageParams.overlayOffset}
+                          onChange={handleInputChange}
+                          placeholder="0,0"
+                          className="w-full px-3 py-3 text-xl border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 bg-white text-gray-800"
+                        />
+                      </div>
+                      <div>
+                        <label
+                          htmlFor="overlayOpacity"
+                          className="block text-lg font-medium text-gray-800 mb-1"
+                        >
+                          Opacity
+                        </label>
+                        <input
+                          type="number"
+                          id="overlayOpacity"
+                          name="overlayOpacity"
+                          value={
+                            imageParams.overlayOpacity === null
+                              ? ""
+                              : imageParams.overlayOpacity
+                          }
+                          onChange={handleInputChange}
+                          min="0"
+                          max="1"
+                          step="0.05"
+                          placeholder="1"
+                          className="w-full px-3 py-3 text-xl border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 bg-white text-gray-800"
+                        />
+                      </div>
+                      <div>
+                        <label
+                          htmlFor="overlaySize"
+                          className="block text-lg font-medium text-gray-800 mb-1"
+                        >
+                          Size (fraction of width)
+                        </label>
+                        <input
+                          type="number"
+                          id="overlaySize"
+                          name="overlaySize"
+                          value={
+                            imageParams.overlaySize === null
+                              ? ""
+                              : imageParams.overlaySize
+                          }
+                          onChange={handleInputChange}
+                          min="0.01"
+                          max="1"
+                          step="0.05"
+                          placeholder="natural"
+                          className="w-full px-3 py-3 text-xl border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 bg-white text-gray-800"
+                        />
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-3">
+                      <input
+                        type="checkbox"
+                        id="overlayTile"
+                        name="overlayTile"
+                        checked={imageParams.overlayTile}
+                        onChange={handleInputChange}
+                        className="h-5 w-5 accent-indigo-600"
+                      />
+                      <label
+                        htmlFor="overlayTile"
+                        className="text-lg font-medium text-gray-800"
+                      >
+                        Tile across the image
+                      </label>
+                    </div>
+                  </>
+                )}
+              </div>
+
+              <div className="space-y-4 p-4 bg-gray-50 rounded-md border border-gray-200">
+                <p className="text-lg font-medium text-gray-800">
+                  Orientation & Metadata
+                </p>
+                <div className="flex items-center gap-3">
+                  <input
+                    type="checkbox"
+                    id="autoOrient"
+                    name="autoOrient"
+                    checked={imageParams.autoOrient}
+                    onChange={handleInputChange}
+                    className="h-5 w-5 accent-indigo-600"
+                  />
+                  <label
+                    htmlFor="autoOrient"
+                    className="text-lg font-medium text-gray-800"
+                  >
+                    Rotate by the EXIF orientation
+                  </label>
+                </div>
+                <div>
+                  <label
+                    htmlFor="metadata"
+                    className="block text-lg font-medium text-gray-800 mb-1"
+                  >
+                    Metadata
+                  </label>
+                  <select
+                    id="metadata"
+                    name="metadata"
+                    value={imageParams.metadata}
+                    onChange={handleInputChange}
+                    className="w-full px-3 py-3 text-xl border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 bg-white text-gray-800"
+                  >
+                    <option value="">default (strip)</option>
+                    {metadataModes.map((mode) => (
+                      <option key={mode} value={mode}>
+                        {mode}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                {imageParams.metadata === "keep" && (
+                  <div className="flex items-center gap-3">
+                    <input
+                      type="checkbox"
+                      id="keepGps"
+                      name="keepGps"
+                      checked={imageParams.keepGps}
+                      onChange={handleInputChange}
+                      className="h-5 w-5 accent-indigo-600"
+                    />
+                    <label
+                      htmlFor="keepGps"
+                      className="text-lg font-medium text-gray-800"
+                    >
+                      Keep GPS location
+                    </label>
+                  </div>
+                )}
+                <div>
+                  <label
+                    htmlFor="icc"
+                    className="block text-lg font-medium text-gray-800 mb-1"
+                  >
+                    ICC Profile
+                  </label>
+                  <select
+                    id="icc"
+                    name="icc"
+                    value={imageParams.icc}
+                    onChange={handleInputChange}
+                    className="w-full px-3 py-3 text-xl border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 bg-white text-gray-800"
+                  >
+                    <option value="">default (srgb)</option>
+                    {iccModes.map((mode) => (
+                      <option key={mode} value={mode}>
+                        {mode}
+                      </option>
+                    ))}
+                  </select>
+                </div>
               </div>
 
               <div>
@@ -334,10 +1874,16 @@ export default function Home() {
                         <div className="animate-spin rounded-full h-6 w-6 border-t-2 border-b-2 border-indigo-500"></div>
                       </div>
                     ) : currentImageStats ? (
-                      <p className="text-3xl font-medium text-gray-800">
-                        {currentImageStats.width} × {currentImageStats.height}{" "}
-                        px
-                      </p>
+                      <>
+                        <p className="text-3xl font-medium text-gray-800">
+                          {currentImageStats.width} × {currentImageStats.height}{" "}
+                          px
+                        </p>
+                        <p className="text-base text-gray-500">
+                          Source: {currentImageStats.source.width} ×{" "}
+                          {currentImageStats.source.height} px
+                        </p>
+                      </>
                     ) : (
                       <p className="text-3xl font-medium text-gray-400">
                         Not available
@@ -365,6 +1911,9 @@ export default function Home() {
                         >
                           {formatSize(currentImageStats.fileSize)}
                         </p>
+                        <p className="text-base text-gray-500">
+                          Source: {formatSize(currentImageStats.source.size)}
+                        </p>
                         {previousImageStats && (
                           <p className="text-base text-gray-500">
                             Previous: {formatSize(previousImageStats.fileSize)}
@@ -379,35 +1928,70 @@ export default function Home() {
                   </div>
                   <div className="bg-white p-5 rounded-md border border-gray-200">
                     <p className="text-base uppercase text-gray-500 font-medium">
-                      Server Memory Usage
+                      Peak Server Memory
                     </p>
                     {imageLoading ? (
                       <div className="flex items-center justify-center py-2">
                         <div className="animate-spin rounded-full h-6 w-6 border-t-2 border-b-2 border-indigo-500"></div>
                       </div>
-                    ) : currentImageStats?.memoryUsage ? (
+                    ) : currentImageStats?.peakMemory ? (
                       <>
                         <p
-                          className={`text-3xl font-medium ${(() => {
-                            const memUsageMatch =
-                              currentImageStats.memoryUsage.match(/(-?\d+)/);
-                            if (memUsageMatch) {
-                              const memBytes = Math.abs(
-                                parseInt(memUsageMatch[0], 10)
-                              );
-                              return memBytes >= 1000 * 1000
-                                ? "text-red-600"
-                                : "text-indigo-600";
-                            }
-                            return "text-indigo-600";
-                          })()}`}
+                          className={`text-3xl font-medium ${
+                            currentImageStats.peakMemory.rss >= 50 * 1000 * 1000
+                              ? "text-red-600"
+                              : "text-indigo-600"
+                          }`}
                         >
-                          {formatSize(currentImageStats.memoryUsage)}
+                          {formatSize(currentImageStats.peakMemory.rss)} RSS
                         </p>
-                        {previousImageStats && (
+                        <p className="text-base text-gray-500">
+                          External:{" "}
+                          {formatSize(currentImageStats.peakMemory.external)},
+                          ArrayBuffers:{" "}
+                          {formatSize(
+                            currentImageStats.peakMemory.arrayBuffers
+                          )}
+                        </p>
+                        {previousImageStats?.peakMemory && (
                           <p className="text-base text-gray-500">
                             Previous:{" "}
-                            {formatSize(previousImageStats.memoryUsage)}
+                            {formatSize(previousImageStats.peakMemory.rss)} RSS
+                          </p>
+                        )}
+                      </>
+                    ) : (
+                      <p className="text-3xl font-medium text-gray-400">
+                        Not available
+                      </p>
+                    )}
+                  </div>
+                  <div className="bg-white p-5 rounded-md border border-gray-200">
+                    <p className="text-base uppercase text-gray-500 font-medium">
+                      Server Time
+                    </p>
+                    {imageLoading ? (
+                      <div className="flex items-center justify-center py-2">
+                        <div className="animate-spin rounded-full h-6 w-6 border-t-2 border-b-2 border-indigo-500"></div>
+                      </div>
+                    ) : currentImageStats?.timings.total !== undefined ? (
+                      <>
+                        <p className="text-3xl font-medium text-gray-800">
+                          {formatDuration(currentImageStats.timings.total)}
+                        </p>
+                        <p className="text-base text-gray-500">
+                          {Object.entries(currentImageStats.timings)
+                            .filter(([phase]) => phase !== "total")
+                            .map(
+                              ([phase, duration]) =>
+                                `${phase}: ${formatDuration(duration)}`
+                            )
+                            .join(", ")}
+                        </p>
+                        {previousImageStats?.timings.total !== undefined && (
+                          <p className="text-base text-gray-500">
+                            Previous:{" "}
+                            {formatDuration(previousImageStats.timings.total)}
                           </p>
                         )}
                       </>
@@ -436,6 +2020,65 @@ export default function Home() {
                       </p>
                     )}
                   </div>
+                  <div className="bg-white p-5 rounded-md border border-gray-200">
+                    <p className="text-base uppercase text-gray-500 font-medium">
+                      Frames
+                    </p>
+                    {imageLoading ? (
+                      <div className="flex items-center justify-center py-2">
+                        <div className="animate-spin rounded-full h-6 w-6 border-t-2 border-b-2 border-indigo-500"></div>
+                      </div>
+                    ) : currentImageStats?.frames ? (
+                      <>
+                        <p className="text-3xl font-medium text-gray-800">
+                          {currentImageStats.frames}
+                        </p>
+                        <p className="text-base text-gray-500">
+                          {currentImageStats.width} × {currentImageStats.height}{" "}
+                          px per frame
+                        </p>
+                      </>
+                    ) : (
+                      <p className="text-3xl font-medium text-gray-400">
+                        Not available
+                      </p>
+                    )}
+                  </div>
+                  <div className="bg-white p-5 rounded-md border border-gray-200 col-span-2">
+                    <p className="text-base uppercase text-gray-500 font-medium">
+                      Metadata
+                    </p>
+                    {imageLoading ? (
+                      <div className="flex items-center justify-center py-2">
+                        <div className="animate-spin rounded-full h-6 w-6 border-t-2 border-b-2 border-indigo-500"></div>
+                      </div>
+                    ) : currentImageStats ? (
+                      <dl className="grid grid-cols-[auto_1fr_1fr] gap-x-6 gap-y-1 text-base">
+                        <dt></dt>
+                        <dd className="font-medium text-gray-500">Source</dd>
+                        <dd className="font-medium text-gray-500">Output</dd>
+                        {getMetadataRows(
+                          currentImageStats.source,
+                          currentImageStats.output
+                        ).map(([label, source, output]) => (
+                          <React.Fragment key={label}>
+                            <dt className="text-gray-500">{label}</dt>
+                            <dd className="text-gray-800">{source}</dd>
+                            <dd className="text-gray-800">{output}</dd>
+                          </React.Fragment>
+                        ))}
+                      </dl>
+                    ) : (
+                      <p className="text-3xl font-medium text-gray-400">
+                        Not available
+                      </p>
+                    )}
+                    {currentImageStats?.operations && !imageLoading && (
+                      <p className="mt-3 text-base text-gray-500">
+                        Operations: {currentImageStats.operations}
+                      </p>
+                    )}
+                  </div>
                 </div>
               </div>
             </div>
@@ -454,17 +2097,15 @@ export default function Home() {
               </div>
             )}
             <div className="flex items-center justify-center w-full h-full bg-gray-100 p-4 rounded-md relative">
-              {currentUrl ? (
+              {displayUrl ? (
                 <>
                   <div className="w-[600px] h-[400px] relative flex items-center justify-center">
                     <img
-                      src={currentUrl}
+                      src={displayUrl}
                       alt="Optimized preview"
                       className={`max-w-full max-h-full object-contain rounded shadow-md ${
                         imageLoading ? "opacity-30" : ""
                       }`}
-                      ref={imgRef}
-                      onLoad={fetchImageStats}
                     />
                     {imageLoading && (
                       <div className="absolute inset-0 flex items-center justify-center">
@@ -497,6 +2138,49 @@ export default function Home() {
         </div>
       </div>
 
+      {/* Responsive Image Section */}
+      {currentImageStats && imageHistory[0].requestedParams.src && (
+        <div className="max-w-full mx-4 mt-8 bg-white rounded-lg shadow-xl border border-gray-200 overflow-hidden">
+          <div className="border-b border-gray-200 bg-gray-50 px-6 py-4">
+            <h2 className="text-3xl font-semibold text-gray-800">
+              Responsive Image
+            </h2>
+            <p className="text-base text-gray-500 mt-1">
+              {"<Image>"} renders a {"<picture>"} with AVIF and WebP sources
+              over the breakpoints up to the loaded width.
+            </p>
+          </div>
+          <ResponsiveImageExample
+            src={imageHistory[0].requestedParams.src}
+            width={currentImageStats.width}
+            height={currentImageStats.height}
+            quality={imageHistory[0].requestedParams.quality ?? undefined}
+            alt="Responsive preview"
+            sizes="(min-width: 768px) 50vw, 100vw"
+          />
+        </div>
+      )}
+
+      {/* Placeholder Section */}
+      {currentImageStats && imageHistory[0].requestedParams.src && (
+        <div className="max-w-full mx-4 mt-8 bg-white rounded-lg shadow-xl border border-gray-200 overflow-hidden">
+          <div className="border-b border-gray-200 bg-gray-50 px-6 py-4">
+            <h2 className="text-3xl font-semibold text-gray-800">
+              Placeholders
+            </h2>
+            <p className="text-base text-gray-500 mt-1">
+              Tiny previews to show while the full image loads, stretched to the
+              same size.
+            </p>
+          </div>
+          <PlaceholderPreview
+            params={imageHistory[0].requestedParams}
+            fullUrl={displayUrl}
+            fullSize={currentImageStats.fileSize}
+          />
+        </div>
+      )}
+
       {/* History Section */}
       {imageHistory.length > 0 && (
         <div className="max-w-full mx-4 mt-8 bg-white rounded-lg shadow-xl border border-gray-200 overflow-hidden">
@@ -540,7 +2224,8 @@ export default function Home() {
                       <div
                         className={`text-base mt-1 font-medium ${
                           item.requestedParams.format === "webp" ||
-                          item.requestedParams.format === "avif"
+                          item.requestedParams.format === "avif" ||
+                          item.requestedParams.format === "auto"
                             ? "text-green-600 bg-green-50 inline-block px-3 py-1 rounded-full"
                             : item.requestedParams.format === "original"
                             ? "text-yellow-600 bg-yellow-50 inline-block px-3 py-1 rounded-full"
@@ -564,6 +2249,9 @@ export default function Home() {
                       <div className="text-base font-medium text-gray-900">
                         w: {item.imageStats.width}, h: {item.imageStats.height}
                       </div>
+                      <div className="text-base text-gray-500 mt-1">
+                        format: {item.imageStats.format}
+                      </div>
                       {item.imageStats.fileSize && (
                         <div
                           className={`text-base font-medium mt-1 ${
@@ -591,42 +2279,22 @@ export default function Home() {
                           })()}
                         </div>
                       )}
-                      {item.imageStats.memoryUsage && (
+                      {item.imageStats.peakMemory && (
                         <div
-                          className={`text-base font-medium mt-1 inline-block px-3 py-1 rounded-full ${(() => {
-                            const memUsageMatch =
-                              item.imageStats.memoryUsage.match(/(-?\d+)/);
-                            if (memUsageMatch) {
-                              const memBytes = Math.abs(
-                                parseInt(memUsageMatch[0], 10)
-                              );
-                              return memBytes >= 1000 * 1000
-                                ? "text-red-600 bg-red-50"
-                                : "text-indigo-600 bg-indigo-50";
-                            }
-                            return "text-indigo-600 bg-indigo-50";
-                          })()}`}
+                          className={`text-base font-medium mt-1 inline-block px-3 py-1 rounded-full ${
+                            item.imageStats.peakMemory.rss >= 50 * 1000 * 1000
+                              ? "text-red-600 bg-red-50"
+                              : "text-indigo-600 bg-indigo-50"
+                          }`}
                         >
-                          server memory:{" "}
-                          {(() => {
-                            const memUsageMatch =
-                              item.imageStats.memoryUsage.match(/(-?\d+)/);
-                            if (memUsageMatch) {
-                              const memBytes = Math.abs(
-                                parseInt(memUsageMatch[0], 10)
-                              );
-                              if (memBytes < 1000 * 1000) {
-                                return `${(memBytes / 1000).toFixed(2)} KB`;
-                              } else {
-                                const mbSize = memBytes / (1000 * 1000);
-                                const kbSize = mbSize * 1000;
-                                return `${mbSize.toFixed(2)} MB (${Math.round(
-                                  kbSize
-                                )} KB)`;
-                              }
-                            }
-                            return item.imageStats.memoryUsage;
-                          })()}
+                          peak server memory:{" "}
+                          {formatSize(item.imageStats.peakMemory.rss)} RSS
+                        </div>
+                      )}
+                      {item.imageStats.timings.total !== undefined && (
+                        <div className="text-base text-gray-500 mt-1">
+                          server time:{" "}
+                          {formatDuration(item.imageStats.timings.total)}
                         </div>
                       )}
                     </td>
@@ -0,0 +1,36 @@
+import { httpCacheConfig } from "~/lib/config.server";
+import { acquireWorkSlot } from "~/lib/limits.server";
+import { getPlaceholderHash, parseHashQuery } from "~/lib/placeholder.server";
+import { errorResponse } from "~/lib/responses";
+import { verifyImageUrl } from "~/lib/signing.server";
+import { readSource, resolveSource } from "~/lib/source.server";
+import type { Route } from "./+types/img-hash";
+
+/**
+ * ThumbHash or BlurHash of a source image, e.g.
+ * `/img-hash?src=/cat.png&algorithm=blurhash`.
+ */
+export async function loader({ request }: Route.LoaderArgs) {
+  try {
+    const url = new URL(request.url);
+    verifyImageUrl(url);
+    const { src, algorithm } = parseHashQuery(url.searchParams);
+
+    const source = await resolveSource(src);
+    const release = await acquireWorkSlot();
+    try {
+      const hash = await getPlaceholderHash(
+        await readSource(source),
+        algorithm
+      );
+      return Response.json(hash, {
+        headers: { "Cache-Control": httpCacheConfig.cacheControl },
+      });
+    } finally {
+      release();
+    }
+  } catch (error: unknown) {
+    console.error(error);
+    return errorResponse(error);
+  }
+}
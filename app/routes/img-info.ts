@@ -0,0 +1,87 @@
+import { buffer } from "node:stream/consumers";
+import { getCacheKey, getOrCreateVariant } from "~/lib/cache.server";
+import { availableFormats } from "~/lib/capabilities.server";
+import { filterExif } from "~/lib/exif.server";
+import { getImageInfo } from "~/lib/image-info.server";
+import { sniffImageType } from "~/lib/image-type";
+import {
+  acquireWorkSlot,
+  checkOutputSize,
+  checkPresetsOnly,
+} from "~/lib/limits.server";
+import { loadOverlay } from "~/lib/overlay.server";
+import { getFrameCount, transformBuffer } from "~/lib/pipeline.server";
+import { errorResponse, invariantResponse } from "~/lib/responses";
+import { verifyImageUrl } from "~/lib/signing.server";
+import { readSource, resolveSource } from "~/lib/source.server";
+import { hasTransforms, parseTransformOptions } from "~/lib/transform";
+import type { Route } from "./+types/img-info";
+
+/**
+ * Metadata of the source an `/img` or `/img-stream` URL (passed as `url`)
+ * reads and of the image it responds with. The output is taken from the
+ * variant cache, so asking after loading the image doesn't encode it again.
+ */
+export async function loader({ request }: Route.LoaderArgs) {
+  try {
+    const url = new URL(request.url);
+    const variantParam = url.searchParams.get("url");
+    invariantResponse(variantParam, "Missing image URL", 400);
+    const variantUrl = new URL(variantParam, url.origin);
+    invariantResponse(
+      /^\/img(-stream)?$/.test(variantUrl.pathname),
+      `Not an image URL: ${variantParam}`,
+      400
+    );
+    verifyImageUrl(variantUrl);
+    checkPresetsOnly(variantUrl.searchParams);
+    const options = parseTransformOptions(
+      variantUrl.searchParams,
+      request.headers.get("Accept"),
+      availableFormats
+    );
+    checkOutputSize(options);
+
+    const source = await resolveSource(options.src);
+    const overlaySource = options.overlay
+      ? await resolveSource(options.overlay)
+      : null;
+    const sourceData = await readSource(source);
+    const sourceInfo = await getImageInfo(sourceData);
+    // Without transforms the endpoints send the source as it is
+    if (!hasTransforms(options)) {
+      return Response.json({ source: sourceInfo, output: sourceInfo });
+    }
+
+    const variant = await getOrCreateVariant(
+      getCacheKey(source, options, overlaySource),
+      async () => {
+        const release = await acquireWorkSlot();
+        try {
+          const { data, info } = await transformBuffer(
+            options,
+            sourceData,
+            await loadOverlay(options, overlaySource)
+          );
+          filterExif(data, options);
+          const contentType = sniffImageType(data);
+          invariantResponse(contentType, "Unknown output format", 500);
+          return { data, contentType, frames: getFrameCount(info) };
+        } finally {
+          release();
+        }
+      }
+    );
+    const outputData = Buffer.isBuffer(variant.body)
+      ? variant.body
+      : await buffer(variant.body);
+
+    return Response.json({
+      source: sourceInfo,
+      output: await getImageInfo(outputData),
+    });
+  } catch (error: unknown) {
+    console.error(error);
+    return errorResponse(error);
+  }
+}
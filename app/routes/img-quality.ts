@@ -0,0 +1,66 @@
+import { availableFormats } from "~/lib/capabilities.server";
+import {
+  acquireWorkSlot,
+  checkOutputSize,
+  checkPresetsOnly,
+} from "~/lib/limits.server";
+import { loadOverlay } from "~/lib/overlay.server";
+import { transformBuffer } from "~/lib/pipeline.server";
+import { scoreVariant } from "~/lib/quality.server";
+import { errorResponse, invariantResponse } from "~/lib/responses";
+import { verifyImageUrl } from "~/lib/signing.server";
+import { readSource, resolveSource } from "~/lib/source.server";
+import { hasTransforms, parseTransformOptions } from "~/lib/transform";
+import type { Route } from "./+types/img-quality";
+
+/**
+ * SSIM and PSNR of the image an `/img` or `/img-stream` URL (passed as `url`)
+ * produces, measured against its source.
+ */
+export async function loader({ request }: Route.LoaderArgs) {
+  try {
+    const url = new URL(request.url);
+    const variantParam = url.searchParams.get("url");
+    invariantResponse(variantParam, "Missing image URL", 400);
+    const variantUrl = new URL(variantParam, url.origin);
+    invariantResponse(
+      /^\/img(-stream)?$/.test(variantUrl.pathname),
+      `Not an image URL: ${variantParam}`,
+      400
+    );
+    // Scoring costs more than encoding, so it is guarded the same way
+    verifyImageUrl(variantUrl);
+    checkPresetsOnly(variantUrl.searchParams);
+    const options = parseTransformOptions(
+      variantUrl.searchParams,
+      request.headers.get("Accept"),
+      availableFormats
+    );
+    checkOutputSize(options);
+
+    const source = await resolveSource(options.src);
+    const overlaySource = options.overlay
+      ? await resolveSource(options.overlay)
+      : null;
+    const release = await acquireWorkSlot();
+    try {
+      const buffer = await readSource(source);
+      const overlay = await loadOverlay(options, overlaySource);
+      // Without transforms the endpoints send the source as it is
+      const variant = hasTransforms(options)
+        ? (await transformBuffer(options, buffer, overlay)).data
+        : buffer;
+      const scores = await scoreVariant(buffer, variant, options, overlay);
+      return Response.json({
+        ...scores,
+        size: variant.length,
+        sourceSize: buffer.length,
+      });
+    } finally {
+      release();
+    }
+  } catch (error: unknown) {
+    console.error(error);
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,14 @@
+import { getRequestStats } from "~/lib/metrics.server";
+import { invariantResponse } from "~/lib/responses";
+import type { Route } from "./+types/img-stats";
+
+/**
+ * Final stats of a recent image request by its `X-Request-Id`, including
+ * memory sampled while the body was streamed after the headers were sent.
+ */
+export async function loader({ request }: Route.LoaderArgs) {
+  const id = new URL(request.url).searchParams.get("id");
+  const stats = id ? getRequestStats(id) : null;
+  invariantResponse(stats, "No stats for this request", 404);
+  return Response.json(stats, { headers: { "Cache-Control": "no-store" } });
+}
@@ -1,116 +1,180 @@
-import sharp from "sharp";
-import { Readable } from "stream";
-import { createReadStream, readFileSync } from "node:fs";
-import { setFlagsFromString } from "v8";
-import { runInNewContext } from "vm";
-import type { Route } from "./+types/img";
-import path from "node:path";
-
-function invariantResponse(
-  condition: unknown,
-  message: string,
-  status: number
-): asserts condition {
-  if (!condition) {
-    throw new Response(message, { status, statusText: message });
-  }
-}
-
-function clearMemory() {
-  setFlagsFromString("--expose_gc");
-  const gc = runInNewContext("gc");
-  gc();
-}
+import {
+  getCacheKey,
+  getOrCreateVariant,
+  toResponseBody,
+} from "~/lib/cache.server";
+import { availableFormats } from "~/lib/capabilities.server";
+import { createExifFilter } from "~/lib/exif.server";
+import { getCacheHeaders, isNotModified } from "~/lib/http-cache.server";
+import {
+  acquireWorkSlot,
+  checkOutputSize,
+  checkPresetsOnly,
+} from "~/lib/limits.server";
+import { clearMemory } from "~/lib/memory.server";
+import { startRequestMetrics } from "~/lib/metrics.server";
+import { REFRESH_HEADER } from "~/lib/playground";
+import { getPlaceholderJson } from "~/lib/placeholder.server";
+import { loadOverlay } from "~/lib/overlay.server";
+import {
+  checkPipelineSource,
+  createTransformPipeline,
+  getFrameCount,
+  pipeOverlay,
+} from "~/lib/pipeline.server";
+import {
+  errorResponse,
+  invariantResponse,
+  passthroughHeaders,
+} from "~/lib/responses";
+import {
+  peekImageType,
+  resolveSource,
+  streamSource,
+} from "~/lib/source.server";
+import {
+  describeOperations,
+  hasTransforms,
+  parseTransformOptions,
+} from "~/lib/transform";
+import { verifyImageUrl } from "~/lib/signing.server";
+import type { Route } from "./+types/img-stream";
 
 export async function loader({ request }: Route.LoaderArgs) {
-  try {
-    // Force garbage collection for memory tracking
-    clearMemory();
-    // Memory usage before processing
-    const beforeBuffers =
-      process.memoryUsage().arrayBuffers + process.memoryUsage().heapUsed;
+  // Force garbage collection so the memory baseline isn't skewed by garbage
+  clearMemory();
+  // Samples memory and times phases until the response has been streamed
+  const metrics = startRequestMetrics();
 
-    // Parse request
+  try {
+    // Parse & validate request
     const url = new URL(request.url);
-    const params = new URLSearchParams(url.search);
-
-    const src = params.get("src");
-    const w = params.get("w");
-    const h = params.get("h");
-    const format = params.get("format");
-
-    // Validate source path
-    invariantResponse(src, "Source image URL is required", 400);
-
-    // Validate width & height
-    const width = w ? parseInt(w, 10) : null;
-    const height = h ? parseInt(h, 10) : null;
-    invariantResponse(
-      width === null || !isNaN(width),
-      "Width must be unset or a positive number",
-      400
-    );
-    invariantResponse(
-      height === null || !isNaN(height),
-      "Height must be unset or a positive number",
-      400
+    verifyImageUrl(url);
+    checkPresetsOnly(url.searchParams);
+    const options = parseTransformOptions(
+      url.searchParams,
+      request.headers.get("Accept"),
+      availableFormats
     );
-
-    // Validate format if provided
-    invariantResponse(
-      format === null || format === "webp" || format === "avif",
-      "Format must be one of: webp, avif",
-      400
-    );
-
-    const fsPath = path.join(process.cwd(), "public", src);
-
-    let stream;
-    try {
-      stream = await createReadStream(fsPath);
-    } catch (error) {
-      return new Response(`Image file not found: ${src}`, { status: 404 });
+    checkOutputSize(options);
+
+    const source = await resolveSource(options.src);
+    // Overlay sources follow the same rules as `src`
+    const overlaySource = options.overlay
+      ? await resolveSource(options.overlay)
+      : null;
+
+    // Revalidation is answered without reading or processing the source
+    const cacheHeaders = getCacheHeaders(source, options, overlaySource);
+    if (isNotModified(request, cacheHeaders)) {
+      metrics.finish();
+      return new Response(null, { status: 304, headers: cacheHeaders });
     }
 
-    if (!format && !width && !height) {
-      const afterBuffers =
-        process.memoryUsage().arrayBuffers + process.memoryUsage().heapUsed;
-
-      return new Response(Readable.toWeb(stream) as any, {
+    if (!hasTransforms(options)) {
+      const { stream, contentType } = await metrics.time("read", async () =>
+        peekImageType(await streamSource(source))
+      );
+      invariantResponse(
+        contentType,
+        `Source is not an image: ${source.src}`,
+        415
+      );
+
+      return new Response(toResponseBody(metrics.track(stream)), {
         headers: {
-          "Content-Type": "image/png",
-          "X-Memory-Usage": `${afterBuffers - beforeBuffers} bytes`,
+          "Content-Type": contentType,
+          ...(source.type === "local" && {
+            "Content-Length": String(source.size),
+          }),
+          ...passthroughHeaders,
+          ...metrics.getHeaders(),
+          ...cacheHeaders,
         },
       });
     }
 
     // --- Image processing starts here ---
 
-    const pipeline = sharp();
-    if (format) {
-      pipeline.toFormat(format);
-    }
-    if (width && height) {
-      pipeline.resize(width, height);
-    }
-
-    const resStream = stream.pipe(pipeline);
+    const variant = await getOrCreateVariant(
+      getCacheKey(source, options, overlaySource),
+      async () => {
+        const release = await metrics.time("queue", acquireWorkSlot);
+        try {
+          const overlay = await loadOverlay(options, overlaySource);
+          // The overlay pipeline keeps the source format, so it is sniffed
+          const { stream, contentType: sourceType } = overlay
+            ? await peekImageType(await streamSource(source))
+            : { stream: await streamSource(source), contentType: null };
+          const pipeline = createTransformPipeline(options);
+          let frames = 1;
+          pipeline.once("info", (info) => {
+            frames = getFrameCount(info);
+          });
+          // Source errors (e.g. a remote image over the size cap) and
+          // processing errors abort the response
+          stream.on("error", (error) => pipeline.destroy(error));
+          stream.pipe(pipeline);
+          await metrics.time("read", () =>
+            checkPipelineSource(pipeline, options)
+          );
+          // sharp emits the encoded image in one go, so peeking at the first
+          // chunk for its type doesn't hold back the response. Processing is
+          // done by then, which frees the slot for the next request. Decoding,
+          // resizing and encoding overlap and are timed together.
+          const output = await metrics.time("process", async () => {
+            const encoded = overlay
+              ? await pipeOverlay(pipeline, options, overlay, sourceType)
+              : pipeline;
+            const resStream = encoded.pipe(createExifFilter(options));
+            pipeline.on("error", (error) => resStream.destroy(error));
+            encoded.on("error", (error) => resStream.destroy(error));
+            return peekImageType(resStream);
+          });
+          invariantResponse(output.contentType, "Unknown output format", 500);
+          return {
+            data: output.stream,
+            contentType: output.contentType,
+            frames,
+          };
+        } finally {
+          release();
+        }
+      },
+      // Lets the playground measure a fresh encode on every load
+      { refresh: request.headers.has(REFRESH_HEADER) }
+    );
 
     // --- Image processing ends here ---
 
-    const afterBuffers =
-      process.memoryUsage().arrayBuffers + process.memoryUsage().heapUsed;
-    return new Response(Readable.toWeb(resStream) as any, {
+    if (options.placeholder === "json") {
+      const response = Response.json(await getPlaceholderJson(variant), {
+        headers: {
+          "X-Cache": variant.hit ? "HIT" : "MISS",
+          ...metrics.getHeaders(),
+          ...cacheHeaders,
+        },
+      });
+      metrics.finish();
+      return response;
+    }
+
+    return new Response(toResponseBody(metrics.track(variant.body)), {
       headers: {
-        "Content-Type": format ? `image/${format}` : "image/png",
-        "X-Memory-Usage": `${afterBuffers - beforeBuffers} bytes`,
+        "Content-Type": variant.contentType,
+        ...(variant.size !== null && {
+          "Content-Length": String(variant.size),
+        }),
+        "X-Cache": variant.hit ? "HIT" : "MISS",
+        "X-Image-Frames": String(variant.frames),
+        "X-Image-Operations": describeOperations(options).join(", "),
+        ...metrics.getHeaders(),
+        ...cacheHeaders,
       },
     });
   } catch (error: unknown) {
     console.error(error);
-    if (error instanceof Response) {
-      return error;
-    }
-    return new Response(`Error processing image: ${error}`, { status: 500 });
+    metrics.finish();
+    return errorResponse(error);
   }
 }
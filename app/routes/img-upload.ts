@@ -0,0 +1,76 @@
+import { uploadConfig } from "~/lib/config.server";
+import {
+  errorResponse,
+  invariantResponse,
+  limitResponse,
+} from "~/lib/responses";
+import { saveUpload } from "~/lib/uploads.server";
+import type { Route } from "./+types/img-upload";
+
+// Room for the multipart boundaries and headers around the file
+const MULTIPART_OVERHEAD = 64 * 1024;
+
+function uploadTooLarge() {
+  return limitResponse(
+    `Upload must not exceed ${uploadConfig.maxBytes} bytes`,
+    413,
+    { limit: "uploadBytes", max: uploadConfig.maxBytes }
+  );
+}
+
+/**
+ * Parses the multipart body, failing with a 413 Response as soon as more
+ * bytes arrive than the limit allows. Bodies without a Content-Length would
+ * otherwise be buffered whatever their size. Malformed bodies answer 400.
+ */
+async function readFormData(request: Request) {
+  const maxBytes = uploadConfig.maxBytes + MULTIPART_OVERHEAD;
+  let received = 0;
+  const body = request.body?.pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, controller) {
+        received += chunk.length;
+        if (received > maxBytes) {
+          controller.error(new RangeError("Upload too large"));
+          return;
+        }
+        controller.enqueue(chunk);
+      },
+    })
+  );
+  try {
+    return await new Response(body, { headers: request.headers }).formData();
+  } catch {
+    if (received > maxBytes) {
+      throw uploadTooLarge();
+    }
+    throw new Response("Invalid multipart body", {
+      status: 400,
+      statusText: "Invalid multipart body",
+    });
+  }
+}
+
+/**
+ * Stores the image in the `file` field of a multipart POST as a source the
+ * image endpoints can read, e.g. `/img?src=/uploads/<name>`. Responds with
+ * its `src`, size, type, dimensions and expiry.
+ */
+export async function action({ request }: Route.ActionArgs) {
+  try {
+    invariantResponse(request.method === "POST", "Method not allowed", 405);
+    // Rejects bodies that can't fit the limit before parsing them
+    const contentLength = Number(request.headers.get("Content-Length"));
+    if (contentLength > uploadConfig.maxBytes + MULTIPART_OVERHEAD) {
+      throw uploadTooLarge();
+    }
+
+    const formData = await readFormData(request);
+    const file = formData.get("file");
+    invariantResponse(file instanceof File, "Missing file", 400);
+    return Response.json(await saveUpload(file), { status: 201 });
+  } catch (error: unknown) {
+    console.error(error);
+    return errorResponse(error);
+  }
+}
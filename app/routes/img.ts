@@ -1,120 +1,149 @@
-import sharp from "sharp";
-import { Readable } from "stream";
-import path from "node:path";
-import { createReadStream, readFileSync } from "node:fs";
-import { setFlagsFromString } from "v8";
-import { runInNewContext } from "vm";
+import {
+  getCacheKey,
+  getOrCreateVariant,
+  toResponseBody,
+} from "~/lib/cache.server";
+import { availableFormats } from "~/lib/capabilities.server";
+import { filterExif } from "~/lib/exif.server";
+import { getCacheHeaders, isNotModified } from "~/lib/http-cache.server";
+import { sniffImageType } from "~/lib/image-type";
+import {
+  acquireWorkSlot,
+  checkOutputSize,
+  checkPresetsOnly,
+} from "~/lib/limits.server";
+import { clearMemory } from "~/lib/memory.server";
+import { startRequestMetrics } from "~/lib/metrics.server";
+import { REFRESH_HEADER } from "~/lib/playground";
+import { getPlaceholderJson } from "~/lib/placeholder.server";
+import { loadOverlay } from "~/lib/overlay.server";
+import { getFrameCount, transformBuffer } from "~/lib/pipeline.server";
+import { readSource, resolveSource } from "~/lib/source.server";
+import {
+  errorResponse,
+  invariantResponse,
+  passthroughHeaders,
+} from "~/lib/responses";
+import {
+  describeOperations,
+  hasTransforms,
+  parseTransformOptions,
+} from "~/lib/transform";
+import { verifyImageUrl } from "~/lib/signing.server";
 import type { Route } from "./+types/img";
 
-function invariantResponse(
-  condition: unknown,
-  message: string,
-  status: number
-): asserts condition {
-  if (!condition) {
-    throw new Response(message, { status, statusText: message });
-  }
-}
-
-function clearMemory() {
-  setFlagsFromString("--expose_gc");
-  const gc = runInNewContext("gc");
-  gc();
-}
-
 export async function loader({ request }: Route.LoaderArgs) {
-  try {
-    // Force garbage collection for memory tracking
-    clearMemory();
-    // Memory usage before processing
-    const beforeBuffers =
-      process.memoryUsage().arrayBuffers + process.memoryUsage().heapUsed;
+  // Force garbage collection so the memory baseline isn't skewed by garbage
+  clearMemory();
+  // Samples memory and times phases until the response is sent
+  const metrics = startRequestMetrics();
 
-    // Parse request
+  try {
+    // Parse & validate request
     const url = new URL(request.url);
-    const params = new URLSearchParams(url.search);
-
-    const src = params.get("src");
-    const w = params.get("w");
-    const h = params.get("h");
-    const format = params.get("format");
-
-    // Validate source path
-    invariantResponse(src, "Source image URL is required", 400);
-
-    // Validate width & height
-    const width = w ? parseInt(w, 10) : null;
-    const height = h ? parseInt(h, 10) : null;
-    invariantResponse(
-      width === null || !isNaN(width),
-      "Width must be unset or a positive number",
-      400
-    );
-    invariantResponse(
-      height === null || !isNaN(height),
-      "Height must be unset or a positive number",
-      400
-    );
-
-    // Validate format if provided
-    invariantResponse(
-      format === null || format === "webp" || format === "avif",
-      "Format must be one of: webp, avif",
-      400
+    verifyImageUrl(url);
+    checkPresetsOnly(url.searchParams);
+    const options = parseTransformOptions(
+      url.searchParams,
+      request.headers.get("Accept"),
+      availableFormats
     );
-
-    const fsPath = path.join(process.cwd(), "public", src);
-
-    let buffer;
-    try {
-      buffer = await readFileSync(fsPath);
-    } catch (error) {
-      return new Response(`Image file not found: ${src}`, { status: 404 });
+    checkOutputSize(options);
+
+    const source = await resolveSource(options.src);
+    // Overlay sources follow the same rules as `src`
+    const overlaySource = options.overlay
+      ? await resolveSource(options.overlay)
+      : null;
+
+    // Revalidation is answered without reading or processing the source
+    const cacheHeaders = getCacheHeaders(source, options, overlaySource);
+    if (isNotModified(request, cacheHeaders)) {
+      metrics.finish();
+      return new Response(null, { status: 304, headers: cacheHeaders });
     }
 
-    if (!format && !width && !height) {
-      const afterBuffers =
-        process.memoryUsage().arrayBuffers + process.memoryUsage().heapUsed;
+    if (!hasTransforms(options)) {
+      const buffer = await metrics.time("read", () => readSource(source));
+      const contentType = sniffImageType(buffer);
+      invariantResponse(
+        contentType,
+        `Source is not an image: ${source.src}`,
+        415
+      );
 
-      return new Response(buffer, {
+      return new Response(toResponseBody(metrics.track(buffer)), {
         headers: {
-          "Content-Type": "image/png",
-          "X-Memory-Usage": `${afterBuffers - beforeBuffers} bytes`,
+          "Content-Type": contentType,
+          "Content-Length": String(buffer.length),
+          ...passthroughHeaders,
+          ...metrics.getHeaders(),
+          ...cacheHeaders,
         },
       });
     }
 
     // --- Image processing starts here ---
 
-    const pipeline = sharp(buffer);
+    const variant = await getOrCreateVariant(
+      getCacheKey(source, options, overlaySource),
+      async () => {
+        const release = await metrics.time("queue", acquireWorkSlot);
+        try {
+          const [buffer, overlay] = await metrics.time("read", () =>
+            Promise.all([
+              readSource(source),
+              loadOverlay(options, overlaySource),
+            ])
+          );
+          // libvips decodes, resizes and encodes in a single pass, so the
+          // steps can only be timed together
+          const { data, info } = await metrics.time("process", () =>
+            transformBuffer(options, buffer, overlay)
+          );
+          filterExif(data, options);
+          // Without a format, sharp keeps the source format where it can
+          const contentType = sniffImageType(data);
+          invariantResponse(contentType, "Unknown output format", 500);
+          return { data, contentType, frames: getFrameCount(info) };
+        } finally {
+          release();
+        }
+      },
+      // Lets the playground measure a fresh encode on every load
+      { refresh: request.headers.has(REFRESH_HEADER) }
+    );
 
-    // Resize if width & height are provided
-    if (width && height) {
-      pipeline.resize(width, height);
-    }
+    // --- Image processing ends here ---
 
-    // Apply format conversion if specified
-    if (format) {
-      pipeline.toFormat(format);
+    if (options.placeholder === "json") {
+      const response = Response.json(await getPlaceholderJson(variant), {
+        headers: {
+          "X-Cache": variant.hit ? "HIT" : "MISS",
+          ...metrics.getHeaders(),
+          ...cacheHeaders,
+        },
+      });
+      metrics.finish();
+      return response;
     }
 
-    const processedBuffer = await pipeline.toBuffer();
-
-    // --- Image processing ends here ---
-
-    const afterBuffers =
-      process.memoryUsage().arrayBuffers + process.memoryUsage().heapUsed;
-    return new Response(processedBuffer, {
+    return new Response(toResponseBody(metrics.track(variant.body)), {
       headers: {
-        "Content-Type": format ? `image/${format}` : "image/png",
-        "X-Memory-Usage": `${afterBuffers - beforeBuffers} bytes`,
+        "Content-Type": variant.contentType,
+        ...(variant.size !== null && {
+          "Content-Length": String(variant.size),
+        }),
+        "X-Cache": variant.hit ? "HIT" : "MISS",
+        "X-Image-Frames": String(variant.frames),
+        "X-Image-Operations": describeOperations(options).join(", "),
+        ...metrics.getHeaders(),
+        ...cacheHeaders,
       },
     });
   } catch (error: unknown) {
     console.error(error);
-    if (error instanceof Response) {
-      return error;
-    }
-    return new Response(`Error processing image: ${error}`, { status: 500 });
+    metrics.finish();
+    return errorResponse(error);
   }
 }